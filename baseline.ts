@@ -0,0 +1,171 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { ESLint, Linter } from 'eslint';
+
+// number of errors per file (relative to cwd) and rule, e.g. `{ "src/index.ts": { "no-console": 2 } }`
+export type Baseline = Record<string, Record<string, number>>;
+
+export type BaselineOptions = {
+  // Path to the baseline file, relative to `cwd`. (default: `.eslint-baseline.json`)
+  baselineFile?: string;
+  // Working directory, in which eslint config is looked up. (default: `process.cwd()`)
+  cwd?: string;
+  // Whether to apply fixes to the linted files. (default: false)
+  fix?: boolean;
+  // Files, directories or globs to lint. (default: `['.']`)
+  patterns?: string[];
+};
+
+export const defaultBaselineFile = '.eslint-baseline.json';
+
+const isError = (message: Linter.LintMessage) => message.severity === 2 && !!message.ruleId;
+
+/**
+ * Read the baseline file. Returns an empty baseline, when the file does not exist.
+ */
+export function readBaseline(file: string): Baseline {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Write the baseline file, with files and rules sorted, to keep diffs stable.
+ */
+export function writeBaseline(file: string, baseline: Baseline) {
+  const sorted: Baseline = {};
+  for (const filePath of Object.keys(baseline).sort()) {
+    const rules = Object.keys(baseline[filePath]).sort();
+    if (rules.length) {
+      sorted[filePath] = Object.fromEntries(rules.map((rule) => [rule, baseline[filePath][rule]]));
+    }
+  }
+  fs.writeFileSync(file, JSON.stringify(sorted, null, 2) + '\n');
+}
+
+/**
+ * Count errors per file and rule in lint results.
+ * Parsing errors (without a rule) and warnings are never counted, as they do not belong in a baseline.
+ */
+export function countViolations(results: ESLint.LintResult[], cwd: string): Baseline {
+  const baseline: Baseline = {};
+  for (const result of results) {
+    const counts: Record<string, number> = {};
+    for (const message of result.messages.filter(isError)) {
+      counts[message.ruleId!] = (counts[message.ruleId!] ?? 0) + 1;
+    }
+    if (Object.keys(counts).length) {
+      baseline[toBaselinePath(result.filePath, cwd)] = counts;
+    }
+  }
+  return baseline;
+}
+
+/**
+ * Remove errors covered by the baseline from lint results.
+ * When a file has more errors of a rule than recorded in the baseline, all errors of that rule are kept,
+ * as it's not possible to tell which of them are the new ones.
+ *
+ * Returns filtered results, together with the baseline shrunk to the errors which are still present.
+ */
+export function applyBaseline(results: ESLint.LintResult[], baseline: Baseline, cwd: string) {
+  const current = countViolations(results, cwd);
+  const shrunk: Baseline = {};
+  for (const [filePath, rules] of Object.entries(baseline)) {
+    // drop entries of removed files
+    if (!fs.existsSync(path.resolve(cwd, filePath))) {
+      continue;
+    }
+    const linted = results.some((result) => toBaselinePath(result.filePath, cwd) === filePath);
+    for (const [rule, count] of Object.entries(rules)) {
+      // keep entries of files, which were not linted in this run, untouched
+      const remaining = linted ? Math.min(count, current[filePath]?.[rule] ?? 0) : count;
+      if (remaining > 0) {
+        (shrunk[filePath] ??= {})[rule] = remaining;
+      }
+    }
+  }
+
+  let suppressedCount = 0;
+  const filtered = results.map((result) => {
+    const filePath = toBaselinePath(result.filePath, cwd);
+    const messages = result.messages.filter((message) => {
+      const allowed = baseline[filePath]?.[message.ruleId!] ?? 0;
+      const suppressed = isError(message) && current[filePath][message.ruleId!] <= allowed;
+      if (suppressed) {
+        suppressedCount++;
+      }
+      return !suppressed;
+    });
+    return { ...result, ...countMessages(messages), messages };
+  });
+
+  return { results: filtered, baseline: shrunk, suppressedCount };
+}
+
+/**
+ * Lint files and record all current errors in the baseline file.
+ * Entries of files, which are not linted in this run, are kept in the baseline file untouched.
+ */
+export async function recordBaseline(options: BaselineOptions = {}) {
+  const { baselineFile = defaultBaselineFile, cwd = process.cwd(), patterns = ['.'] } = options;
+  const file = path.resolve(cwd, baselineFile);
+  const eslint = new ESLint({ cwd });
+  const results = await eslint.lintFiles(patterns);
+  const linted = new Set(results.map((result) => toBaselinePath(result.filePath, cwd)));
+  const baseline = Object.fromEntries(
+    Object.entries(readBaseline(file)).filter(([filePath]) => !linted.has(filePath))
+  );
+  Object.assign(baseline, countViolations(results, cwd));
+  writeBaseline(file, baseline);
+
+  return baseline;
+}
+
+/**
+ * Lint files and report only errors which are not covered by the baseline file.
+ * The baseline file is shrunk automatically, when errors recorded in it have been fixed.
+ *
+ * Returns lint results, with errors covered by the baseline removed.
+ */
+export async function lintWithBaseline(options: BaselineOptions = {}) {
+  const {
+    baselineFile = defaultBaselineFile,
+    cwd = process.cwd(),
+    fix = false,
+    patterns = ['.'],
+  } = options;
+  const file = path.resolve(cwd, baselineFile);
+  const eslint = new ESLint({ cwd, fix });
+  const results = await eslint.lintFiles(patterns);
+  if (fix) {
+    await ESLint.outputFixes(results);
+  }
+
+  const baseline = readBaseline(file);
+  const applied = applyBaseline(results, baseline, cwd);
+  if (JSON.stringify(applied.baseline) !== JSON.stringify(baseline)) {
+    writeBaseline(file, applied.baseline);
+  }
+
+  return { ...applied, eslint };
+}
+
+function toBaselinePath(filePath: string, cwd: string) {
+  // always use forward slashes, so that the baseline file is portable between platforms
+  return path.relative(cwd, filePath).split(path.sep).join('/');
+}
+
+function countMessages(messages: Linter.LintMessage[]) {
+  const errors = messages.filter((message) => message.severity === 2);
+  const warnings = messages.filter((message) => message.severity === 1);
+  return {
+    errorCount: errors.length,
+    fatalErrorCount: errors.filter((message) => message.fatal).length,
+    warningCount: warnings.length,
+    fixableErrorCount: errors.filter((message) => message.fix).length,
+    fixableWarningCount: warnings.filter((message) => message.fix).length,
+  };
+}
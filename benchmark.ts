@@ -0,0 +1,91 @@
+import path from 'node:path';
+
+import { ESLint } from 'eslint';
+
+import customize from './eslint';
+import type { CustomizeOptions, Profile } from './options';
+
+export type BenchmarkOptions = {
+  // Options of `customize()`, which config is benchmarked in each profile. (default: `{ detect: true }`)
+  config?: Omit<CustomizeOptions, 'profile'>;
+  // Working directory with files to lint, globs in `config` are relative to it. (default: `process.cwd()`)
+  cwd?: string;
+  // Files, directories or globs to lint. (default: `['.']`)
+  patterns?: string[];
+  // Profiles to compare. (default: `['editor', 'pre-commit', 'ci']`)
+  profiles?: Profile[];
+};
+
+export type BenchmarkResult = {
+  profile: Profile;
+  // number of linted files
+  files: number;
+  // time spent in parsing, incl. loading type information, in milliseconds
+  parse: number;
+  // time spent in rules, per rule, sorted from the most expensive one, in milliseconds
+  rules: { ruleId: string; time: number }[];
+  // time spent in parsing, rules and fixes, in milliseconds
+  total: number;
+};
+
+// timing fixtures shipped with the package, a small react + vitest project
+export const fixturesDir = path.join(__dirname, 'benchmark');
+
+// options used for the timing fixtures, enabling the expensive parts of the config
+export const fixturesConfig: CustomizeOptions = { detect: true, typeChecked: 'recommended' };
+
+/**
+ * Lint files with the config of `customize()` in each profile, and measure time spent per rule with eslint stats.
+ * Times are summed over all files and passes (eslint lints a file again after applying fixes).
+ */
+export async function benchmark(options: BenchmarkOptions = {}) {
+  const {
+    config = { detect: true },
+    cwd = process.cwd(),
+    patterns = ['.'],
+    profiles = ['editor', 'pre-commit', 'ci'],
+  } = options;
+  const results: BenchmarkResult[] = [];
+  // `customize()` resolves globs, workspaces and tsconfig.json against cwd, the same as when loaded from eslint.config.js
+  const originalCwd = process.cwd();
+  process.chdir(cwd);
+  try {
+    const lint = (profile: Profile) =>
+      new ESLint({
+        cwd,
+        overrideConfigFile: true,
+        overrideConfig: customize({ ...config, profile }),
+        stats: true,
+      }).lintFiles(patterns);
+    // the first run pays for loading plugins and for jit compilation, which would skew the first profile
+    await lint(profiles[0]);
+    for (const profile of profiles) {
+      results.push(summarize(profile, await lint(profile)));
+    }
+  } finally {
+    process.chdir(originalCwd);
+  }
+  return results;
+}
+
+function summarize(profile: Profile, results: ESLint.LintResult[]): BenchmarkResult {
+  const rules: Record<string, number> = {};
+  let parse = 0;
+  let total = 0;
+  for (const pass of results.flatMap((result) => result.stats?.times.passes ?? [])) {
+    parse += pass.parse.total;
+    total += pass.total;
+    for (const [ruleId, { total: time }] of Object.entries(pass.rules ?? {})) {
+      rules[ruleId] = (rules[ruleId] ?? 0) + time;
+    }
+  }
+  return {
+    profile,
+    files: results.length,
+    parse,
+    rules: Object.entries(rules)
+      .map(([ruleId, time]) => ({ ruleId, time }))
+      .sort((a, b) => b.time - a.time),
+    total,
+  };
+}
@@ -0,0 +1,47 @@
+import { toQueryString } from '../utils/format';
+
+export type RequestOptions = {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  signal?: AbortSignal;
+};
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const retryableStatuses = new Set([502, 503, 504]);
+
+async function wait(ms: number) {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function request<T>(
+  path: string,
+  options: RequestOptions = {},
+  retries = 2
+): Promise<T> {
+  const { method = 'GET', query = {}, body, signal } = options;
+  const response = await fetch(`/api${path}${toQueryString(query)}`, {
+    method,
+    signal,
+    headers: { 'content-type': 'application/json' },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+
+  if (retryableStatuses.has(response.status) && retries > 0) {
+    await wait(2 ** (2 - retries) * 100);
+    return request<T>(path, options, retries - 1);
+  }
+  if (!response.ok) {
+    throw new ApiError(response.status, `Request to ${path} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
@@ -0,0 +1,31 @@
+import { request } from './client';
+
+export type User = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: 'admin' | 'editor' | 'viewer';
+  lastLoginAt?: string;
+};
+
+export type UsersPage = {
+  items: User[];
+  total: number;
+};
+
+export async function fetchUsers(page: number, search?: string, signal?: AbortSignal) {
+  return request<UsersPage>('/users', { query: { page, search }, signal });
+}
+
+export async function updateRole(id: number, role: User['role']) {
+  return request<User>(`/users/${id}`, { method: 'PUT', body: { role } });
+}
+
+export async function deleteUsers(ids: number[]) {
+  await Promise.all(ids.map((id) => request<void>(`/users/${id}`, { method: 'DELETE' })));
+}
+
+export function fullName(user: Pick<User, 'firstName' | 'lastName'>) {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ');
+}
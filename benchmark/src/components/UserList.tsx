@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+
+import { type User, fullName, updateRole } from '../api/users';
+import { useUsers } from '../hooks/useUsers';
+import { formatDate, pluralize } from '../utils/format';
+
+type Props = {
+  onSelect?: (user: User) => void;
+};
+
+const roles: User['role'][] = ['admin', 'editor', 'viewer'];
+
+export default function UserList({ onSelect }: Props) {
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const { data, error, loading } = useUsers(page, search);
+
+  if (error) {
+    return <p role="alert">Users could not be loaded: {error.message}</p>;
+  }
+
+  return (
+    <section>
+      <label>
+        <span>Search</span>
+        <input value={search} onChange={(event) => setSearch(event.target.value)} />
+      </label>
+      {loading && <p>Loading…</p>}
+      {data && (
+        <>
+          <p>{pluralize(data.total, 'user')}</p>
+          <ul>
+            {data.items.map((user) => (
+              <li key={user.id}>
+                <button type="button" onClick={() => onSelect?.(user)}>
+                  {fullName(user)}
+                </button>
+                <span>{formatDate(user.lastLoginAt)}</span>
+                <select
+                  value={user.role}
+                  onChange={(event) => void updateRole(user.id, event.target.value as User['role'])}
+                >
+                  {roles.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+          <button type="button" disabled={page === 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </button>
+          <button type="button" onClick={() => setPage(page + 1)}>
+            Next
+          </button>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+
+import { type UsersPage, fetchUsers } from '../api/users';
+
+type State = {
+  data?: UsersPage;
+  error?: Error;
+  loading: boolean;
+};
+
+export function useUsers(page: number, search?: string) {
+  const [state, setState] = useState<State>({ loading: true });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState((previous) => ({ ...previous, loading: true }));
+    fetchUsers(page, search, controller.signal).then(
+      (data) => setState({ data, loading: false }),
+      (error: Error) => {
+        if (error.name !== 'AbortError') {
+          setState({ error, loading: false });
+        }
+      }
+    );
+    return () => controller.abort();
+  }, [page, search]);
+
+  return state;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatDate, pluralize, toQueryString, truncate } from '../src/utils/format';
+
+describe('format', () => {
+  it('formats invalid dates with a fallback', () => {
+    expect(formatDate(undefined)).toBe('-');
+    expect(formatDate('not a date', 'n/a')).toBe('n/a');
+  });
+
+  it('builds query strings without empty values', () => {
+    expect(toQueryString({ page: 2, search: '', active: true, role: undefined })).toBe(
+      '?page=2&active=true'
+    );
+    expect(toQueryString({})).toBe('');
+  });
+
+  it('pluralizes', () => {
+    expect(pluralize(1, 'user')).toBe('1 user');
+    expect(pluralize(3, 'user')).toBe('3 users');
+  });
+
+  it('truncates long texts', () => {
+    expect(truncate('coding standard', 6)).toBe('codin…');
+  });
+});
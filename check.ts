@@ -0,0 +1,207 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { ESLint } from 'eslint';
+import type { Config } from 'prettier';
+
+import { applyBaseline, defaultBaselineFile, readBaseline } from './baseline';
+import customize from './eslint';
+import defaultPrettierConfig from './prettier';
+
+export type CheckOptions = {
+  // Working directory, in which eslint and prettier configs are looked up. (default: `process.cwd()`)
+  cwd?: string;
+  // Whether to format files and apply eslint fixes. (default: false)
+  fix?: boolean;
+  // Check files changed since given git ref, i.e. since the common ancestor with it (e.g. `main` on a feature branch).
+  since?: string;
+  // Check only staged files. (default: false, i.e. files changed in the working tree, incl. untracked ones)
+  staged?: boolean;
+};
+
+export type CheckResult = {
+  // checked files, relative to cwd (changed files, except the ones ignored by `customize()`)
+  files: string[];
+  // files not formatted by prettier (formatted ones, with `fix: true`)
+  unformatted: string[];
+  // eslint results, with errors covered by the baseline file removed
+  results: ESLint.LintResult[];
+  // files with fixes, which have other unstaged changes, so the fixes are not applied (`staged` and `fix` only)
+  unstaged: string[];
+};
+
+// `--relative` lists paths relative to cwd, and only files in cwd
+const diffArgs = ['diff', '--name-only', '--diff-filter=ACMR', '--relative', '-z'];
+
+/**
+ * List files changed in git, relative to cwd. Deleted files are not listed.
+ */
+export function listChangedFiles(options: Pick<CheckOptions, 'cwd' | 'since' | 'staged'> = {}) {
+  const { cwd = process.cwd(), since, staged = false } = options;
+  if (since && staged) {
+    throw new Error("Options 'since' and 'staged' cannot be combined.");
+  }
+  if (staged) {
+    return gitFiles(cwd, ...diffArgs, '--cached').sort();
+  }
+  // untracked files are changes too, until they are ignored
+  const untracked = gitFiles(cwd, 'ls-files', '--others', '--exclude-standard', '-z');
+  const changed = since
+    ? gitFiles(cwd, ...diffArgs, '--merge-base', since)
+    : gitFiles(cwd, ...diffArgs, 'HEAD');
+  return [...new Set([...changed, ...untracked])].sort();
+}
+
+/**
+ * Format changed files with prettier and lint them with eslint, skipping files ignored by `customize()`.
+ * Errors recorded in the baseline file are not reported, the baseline file is never updated though (see `coding-standard lint`).
+ *
+ * With `staged`, the staged content of files is checked, and with `fix`, fixed files are staged again.
+ * Fixes of files with other unstaged changes are not applied, as they would be applied to the working tree version.
+ */
+export async function check(options: CheckOptions = {}): Promise<CheckResult> {
+  const { cwd = process.cwd(), fix = false, staged = false } = options;
+  // the working tree version of other staged files is the staged one
+  const partiallyStaged = staged ? gitFiles(cwd, ...diffArgs) : [];
+
+  const eslint = new ESLint({ cwd, fix });
+  // staged content of partially staged files is linted without fixes, which are reported instead
+  const stagedEslint = fix ? new ESLint({ cwd }) : eslint;
+  // only the global ignores of `customize()`, to format also files which are not linted (e.g. css or yaml files)
+  const ignored = new ESLint({
+    cwd,
+    overrideConfigFile: true,
+    // any file, as files matched by `**/*` only are not considered matched (i.e. ignored) by eslint
+    overrideConfig: [{ ignores: [...customize.ignores] }, { files: ['**/?*'] }],
+  });
+
+  const files: string[] = [];
+  for (const file of listChangedFiles(options)) {
+    if (!(await ignored.isPathIgnored(path.resolve(cwd, file)))) {
+      files.push(file);
+    }
+  }
+
+  const prettier = loadPrettier(cwd);
+  const unformatted: string[] = [];
+  const unstaged: string[] = [];
+  const lintedFiles: string[] = [];
+  const stagedResults: ESLint.LintResult[] = [];
+  for (const file of files) {
+    const filePath = path.resolve(cwd, file);
+    const isPartiallyStaged = partiallyStaged.includes(file);
+    // `:./` resolves the path relative to cwd
+    const source = isPartiallyStaged
+      ? gitShow(cwd, `:./${file}`)
+      : fs.readFileSync(filePath, 'utf8');
+    const { ignored: prettierIgnored, inferredParser } = await prettier.getFileInfo(filePath, {
+      ignorePath: [path.join(cwd, '.gitignore'), path.join(cwd, '.prettierignore')],
+    });
+    if (!prettierIgnored && inferredParser) {
+      const config =
+        (await prettier.resolveConfig(filePath)) ?? withOverrides(defaultPrettierConfig, file);
+      const formatted = await prettier.format(source, { ...config, filepath: filePath });
+      if (formatted !== source && fix && isPartiallyStaged) {
+        unstaged.push(file);
+      } else if (formatted !== source) {
+        unformatted.push(file);
+        if (fix) {
+          fs.writeFileSync(filePath, formatted);
+        }
+      }
+    }
+    if (!(await eslint.isPathIgnored(filePath))) {
+      if (isPartiallyStaged) {
+        stagedResults.push(...(await stagedEslint.lintText(source, { filePath })));
+      } else {
+        lintedFiles.push(file);
+      }
+    }
+  }
+
+  const lintResults = lintedFiles.length ? await eslint.lintFiles(lintedFiles) : [];
+  if (fix) {
+    await ESLint.outputFixes(lintResults);
+  }
+  const { results } = applyBaseline(
+    [...lintResults, ...stagedResults],
+    readBaseline(path.join(cwd, defaultBaselineFile)),
+    cwd
+  );
+
+  if (staged && fix) {
+    const relative = (result: ESLint.LintResult) =>
+      path.relative(cwd, result.filePath).split(path.sep).join('/');
+    const restaged = [
+      ...new Set([
+        ...unformatted,
+        ...lintResults.filter((result) => result.output !== undefined).map(relative),
+      ]),
+    ];
+    if (restaged.length) {
+      execFileSync('git', ['add', '--', ...restaged], { cwd });
+    }
+    for (const result of stagedResults) {
+      if (result.fixableErrorCount + result.fixableWarningCount) {
+        unstaged.push(relative(result));
+      }
+    }
+  }
+
+  return { files, unformatted, results, unstaged: [...new Set(unstaged)] };
+}
+
+function gitShow(cwd: string, object: string) {
+  try {
+    return execFileSync('git', ['show', object], {
+      cwd,
+      encoding: 'utf8',
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch (error) {
+    const message = (error as { stderr?: string }).stderr?.trim() || String(error);
+    throw new Error(`Could not read staged file with git: ${message}`);
+  }
+}
+
+function gitFiles(cwd: string, ...args: string[]) {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 })
+      .split('\0')
+      .filter(Boolean);
+  } catch (error) {
+    const message = (error as { stderr?: string }).stderr?.trim() || String(error);
+    throw new Error(`Could not list changed files with git: ${message}`);
+  }
+}
+
+/**
+ * Apply `overrides` of a prettier config matching given file, which prettier does only for config files it resolves itself.
+ * Supports globs of file names only, e.g. `*.md` or `package.json`, as used in our config.
+ */
+function withOverrides(config: Config, file: string): Config {
+  const { overrides = [], ...options } = config;
+  const basename = path.basename(file);
+  const matches = (glob: string) =>
+    new RegExp(`^${glob.split('*').map(escapeRegExp).join('[^/]*')}$`).test(basename);
+  return Object.assign(
+    options,
+    ...overrides
+      .filter(({ files }) => [files].flat().some(matches))
+      .map((override) => override.options)
+  );
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function loadPrettier(cwd: string): typeof import('prettier') {
+  // prettier of the project, the same one as used by the editor and `prettier --write`
+  try {
+    return require(require.resolve('prettier', { paths: [cwd, __dirname] }));
+  } catch {
+    throw new Error('Could not find prettier, install it as a dev dependency of the project.');
+  }
+}
@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+
+import { ESLint } from 'eslint';
+
+import { defaultBaselineFile, lintWithBaseline, recordBaseline } from './baseline';
+import { benchmark, fixturesConfig, fixturesDir } from './benchmark';
+import { check } from './check';
+import { describeDetected, detectProject } from './detect';
+import { diffConfigs, explain, formatRuleSetting, renderDiffMarkdown } from './explain';
+import { init, unifiedDiff } from './init';
+import type { Profile } from './options';
+
+const usage = `Usage: coding-standard <command> [options]
+
+Commands:
+  baseline [patterns...]    Record current eslint errors in the baseline file
+  benchmark [patterns...]   Measure time spent per rule by the eslint config in each profile
+  check                     Format changed files with prettier and lint them with eslint
+  detect                    Print options inferred by \`detect: true\` option of the eslint config
+  diff [files...]           Print rules changed between two package versions or option sets, as Markdown
+  explain <file>            Print config blocks applying to a file, and the rules they configure
+  init                      Detect the project stack and create eslint and prettier config files
+  lint [patterns...]        Run eslint, failing only on errors not covered by the baseline file
+
+Options:
+  --dry-run                 Print a diff instead of writing files (init only)
+  --fixtures                Lint timing fixtures shipped with the package (benchmark only)
+  --from <dir>              Directory of the package version to compare from (diff only, default: this package)
+  --to <dir>                Directory of the package version to compare to (diff only, default: this package)
+  --options <json>          Options of the eslint config (benchmark and diff, default: {"detect":true})
+  --to-options <json>       Options of the eslint config to compare to (diff only, default: --options)
+  --profile <name>          Profile to measure, repeatable (benchmark only, default: all)
+  --force                   Overwrite existing config files (init only)
+  --baseline-file <path>    Path to the baseline file (default: ${defaultBaselineFile})
+  --fix                     Apply fixes (lint and check)
+  --since <ref>             Check files changed since the common ancestor with given git ref (check only)
+  --staged                  Check staged files, and stage fixes (check only)
+  -h, --help                Show this help
+`;
+
+type Command = (args: string[]) => Promise<number>;
+
+// number of the most expensive rules listed per profile by `benchmark`
+const benchmarkTopRules = 15;
+
+const commands: Record<string, Command> = {
+  async baseline(args) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: { 'baseline-file': { type: 'string' } },
+    });
+    const baseline = await recordBaseline({
+      baselineFile: values['baseline-file'],
+      patterns: positionals.length ? positionals : undefined,
+    });
+    const count = Object.values(baseline)
+      .flatMap((rules) => Object.values(rules))
+      .reduce((sum, n) => sum + n, 0);
+    console.info(`Recorded ${count} error(s) in ${Object.keys(baseline).length} file(s).`);
+    return 0;
+  },
+
+  async benchmark(args) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        fixtures: { type: 'boolean' },
+        options: { type: 'string' },
+        profile: { type: 'string', multiple: true },
+      },
+    });
+    const results = await benchmark({
+      config: values.options
+        ? JSON.parse(values.options)
+        : values.fixtures
+          ? fixturesConfig
+          : undefined,
+      cwd: values.fixtures ? fixturesDir : undefined,
+      patterns: positionals.length ? positionals : undefined,
+      profiles: values.profile as Profile[] | undefined,
+    });
+    const ms = (time: number) => `${time.toFixed(1)} ms`;
+    for (const { profile, files, parse, rules, total } of results) {
+      console.info(`\n${profile}: ${files} file(s), ${ms(total)} (parsing ${ms(parse)})`);
+      for (const { ruleId, time } of rules.slice(0, benchmarkTopRules)) {
+        console.info(`  ${ruleId.padEnd(60)} ${ms(time).padStart(10)}`);
+      }
+    }
+    return 0;
+  },
+
+  async check(args) {
+    const { values } = parseArgs({
+      args,
+      options: {
+        fix: { type: 'boolean' },
+        since: { type: 'string' },
+        staged: { type: 'boolean' },
+      },
+    });
+    const { files, results, unformatted, unstaged } = await check(values);
+    for (const file of unformatted) {
+      console.info(values.fix ? `Formatted: ${file}` : `Not formatted: ${file}`);
+    }
+    for (const file of unstaged) {
+      console.info(`Not fixed: ${file} has unstaged changes, stage or stash them to fix it`);
+    }
+    const formatter = await new ESLint().loadFormatter('stylish');
+    const output = await formatter.format(results);
+    if (output) {
+      console.info(output);
+    }
+    const errorCount = results.reduce((sum, result) => sum + result.errorCount, 0);
+    const notFormatted = values.fix ? 0 : unformatted.length;
+    console.info(
+      `Checked ${files.length} file(s): ${notFormatted} not formatted, ${errorCount} eslint error(s).`
+    );
+    // fixes of partially staged files are not applied
+    return errorCount || notFormatted || unstaged.length ? 1 : 0;
+  },
+
+  async detect() {
+    const { options, packageManager, root } = detectProject();
+    console.info(`Project: ${root} (${packageManager})`);
+    console.info(`Detected: ${describeDetected(options)}`);
+    if (options.jest && options.vitest) {
+      console.warn(
+        'Warning: both jest and vitest are detected, and would target the same test files.'
+      );
+    }
+    return 0;
+  },
+
+  async diff(args) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        from: { type: 'string' },
+        to: { type: 'string' },
+        options: { type: 'string' },
+        'to-options': { type: 'string' },
+      },
+    });
+    const options = values.options ? JSON.parse(values.options) : undefined;
+    const diff = await diffConfigs({
+      files: positionals.length ? positionals : undefined,
+      from: { packageDir: values.from, options },
+      to: {
+        packageDir: values.to,
+        options: values['to-options'] ? JSON.parse(values['to-options']) : options,
+      },
+    });
+    console.info(renderDiffMarkdown(diff));
+    return 0;
+  },
+
+  async explain(args) {
+    const { positionals } = parseArgs({ args, allowPositionals: true });
+    if (positionals.length !== 1) {
+      console.error('Usage: coding-standard explain <file>');
+      return 2;
+    }
+    const { blocks, rules } = await explain(positionals[0]);
+    if (!blocks.length) {
+      console.info(`No config applies to ${positionals[0]}, the file is ignored.`);
+      return 0;
+    }
+    console.info(`Config blocks applying to ${positionals[0]}:`);
+    for (const block of blocks) {
+      console.info(`  ${block}`);
+    }
+    console.info('\nRules (configured by blocks, the last one wins):');
+    for (const [rule, setting] of Object.entries(rules)) {
+      // rules without blocks come from defaults, e.g. of language plugins
+      const configuredBy = setting.blocks.length ? setting.blocks.join(', ') : '-';
+      console.info(`  ${rule} ${formatRuleSetting(setting)} (${configuredBy})`);
+    }
+    return 0;
+  },
+
+  async init(args) {
+    const { values } = parseArgs({
+      args,
+      options: { 'dry-run': { type: 'boolean' }, force: { type: 'boolean' } },
+    });
+    const dryRun = values['dry-run'];
+    const { changes, project, skipped } = init({ dryRun, force: values.force });
+    console.info(`Detected: ${describeDetected(project.options)}`);
+    for (const file of skipped) {
+      console.info(`Skipped: ${file} already exists (use --force to overwrite)`);
+    }
+    for (const change of changes) {
+      console.info(dryRun ? `\n${unifiedDiff(change)}` : `Written: ${change.file}`);
+    }
+    if (!dryRun && changes.length) {
+      console.info(`\nRun \`${project.packageManager} run lint\` to lint the project.`);
+    }
+    return 0;
+  },
+
+  async lint(args) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: { 'baseline-file': { type: 'string' }, fix: { type: 'boolean' } },
+    });
+    const { eslint, results, suppressedCount } = await lintWithBaseline({
+      baselineFile: values['baseline-file'],
+      fix: values.fix,
+      patterns: positionals.length ? positionals : undefined,
+    });
+    const formatter = await eslint.loadFormatter('stylish');
+    const output = await formatter.format(results);
+    if (output) {
+      console.info(output);
+    }
+    if (suppressedCount) {
+      console.info(`${suppressedCount} error(s) suppressed by the baseline.`);
+    }
+    return results.some((result) => result.errorCount > 0) ? 1 : 0;
+  },
+};
+
+async function main(argv: string[]) {
+  const [name, ...args] = argv;
+  if (!name || name === '-h' || name === '--help') {
+    console.info(usage);
+    return 0;
+  }
+  if (!Object.hasOwn(commands, name)) {
+    console.error(`Unknown command '${name}'.\n\n${usage}`);
+    return 2;
+  }
+  return commands[name](args);
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,242 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { globSync } from 'tinyglobby';
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+// options of `customize()`, which can be inferred from the project
+export type DetectedOptions = {
+  console?: 'ban' | 'ban-log' | 'allow';
+  testsDir?: string;
+  cypress?: boolean;
+  jest?: boolean;
+  mocha?: boolean;
+  playwright?: boolean;
+  react?: boolean;
+  storybook?: boolean;
+  vitest?: boolean;
+};
+
+// fields of package.json read by the tools, other fields are kept as they are (e.g. by `init`)
+export type PackageJson = {
+  type?: string;
+  packageManager?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  engines?: { node?: string };
+  scripts?: Record<string, string>;
+  prettier?: unknown;
+  // targets of subpath imports/exports, either a path or a map of conditions to paths (`null` excludes a subpath)
+  // e.g. `{ "#utils/*": "./src/utils/*.js", "#db": { "node": "./src/db.js", "default": "./src/db.browser.js" } }`
+  imports?: Record<string, string | Record<string, unknown> | null>;
+  exports?: string | Record<string, unknown>;
+  [key: string]: unknown;
+};
+
+export type ProjectInfo = {
+  // directory of the nearest package.json
+  root: string;
+  packageJson: PackageJson;
+  packageManager: PackageManager;
+  // module system used for .js files
+  moduleType: 'commonjs' | 'module';
+  options: DetectedOptions;
+};
+
+const lockfiles: Record<string, PackageManager> = {
+  'package-lock.json': 'npm',
+  'yarn.lock': 'yarn',
+  'pnpm-lock.yaml': 'pnpm',
+  'bun.lock': 'bun',
+  'bun.lockb': 'bun',
+};
+
+// projects using a logging library should not log with console
+const loggers = ['bunyan', 'log4js', 'loglevel', 'pino', 'winston'];
+
+// directories which are picked up as `testsDir`, when they exist
+// (`{spec,test,tests}` is the default in `customize()`)
+const defaultTestsDirs = ['spec', 'test', 'tests'];
+const testsDirs = [...defaultTestsDirs, 'e2e', 'cypress'];
+
+/**
+ * Find the nearest directory containing given file, starting from `cwd` and walking up.
+ */
+export function findUp(fileName: string, cwd: string) {
+  let dir = path.resolve(cwd);
+  while (!fs.existsSync(path.join(dir, fileName))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+  return dir;
+}
+
+/**
+ * Detect project stack (frameworks, test runners, tests directory) from the nearest package.json,
+ * lockfile and directory layout.
+ */
+export function detectProject(cwd = process.cwd()): ProjectInfo {
+  const root = findUp('package.json', cwd);
+  if (!root) {
+    throw new Error(`Could not find package.json in '${cwd}' or any of its parent directories.`);
+  }
+  const packageJson: PackageJson = JSON.parse(
+    fs.readFileSync(path.join(root, 'package.json'), 'utf8')
+  );
+  const dependencies: Record<string, string> = {
+    ...packageJson.dependencies,
+    ...packageJson.devDependencies,
+    ...packageJson.peerDependencies,
+  };
+  const has = (name: string) => name in dependencies;
+  // e.g. `jest.config.ts`, `.mocharc.yml`
+  const hasConfig = (prefix: string) =>
+    fs.readdirSync(root).some((file) => file.startsWith(`${prefix}.`));
+
+  const cypress = has('cypress') || hasConfig('cypress.config');
+  const playwright = has('@playwright/test') || hasConfig('playwright.config');
+  // `e2e` directory holds playwright tests, which are not run by other test runners
+  const dirs = testsDirs.filter(
+    (dir) =>
+      (dir !== 'cypress' || cypress) &&
+      (dir !== 'e2e' || !playwright) &&
+      isDirectory(path.join(root, dir))
+  );
+
+  return {
+    root,
+    packageJson,
+    packageManager: detectPackageManager(root, packageJson),
+    moduleType: packageJson.type === 'module' ? 'module' : 'commonjs',
+    options: {
+      ...(loggers.some(has) && { console: 'ban-log' }),
+      // no need to set `testsDir`, when the default covers all existing directories
+      ...(dirs.some((dir) => !defaultTestsDirs.includes(dir)) && {
+        testsDir: dirs.length === 1 ? dirs[0] : `{${dirs.join(',')}}`,
+      }),
+      cypress,
+      jest: has('jest') || hasConfig('jest.config'),
+      mocha: has('mocha') || hasConfig('.mocharc'),
+      playwright,
+      react: has('react'),
+      storybook: has('storybook') || isDirectory(path.join(root, '.storybook')),
+      vitest: has('vitest') || hasConfig('vitest.config'),
+    },
+  };
+}
+
+/**
+ * Merge options detected from the project with explicitly set options. Explicitly set options always win.
+ */
+export function withDetectedOptions<T extends { [K in keyof DetectedOptions]?: unknown }>(
+  options: T,
+  cwd = process.cwd()
+): T {
+  const explicit = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  );
+  return { ...detectProject(cwd).options, ...explicit } as T;
+}
+
+/**
+ * Describe detected options in a human-readable way, e.g. `console: ban-log, testsDir: e2e, react, vitest`.
+ */
+export function describeDetected(options: DetectedOptions) {
+  const detected = Object.entries(options)
+    .filter(([, value]) => value !== false)
+    .map(([key, value]) => (value === true ? key : `${key}: ${value}`));
+  return detected.join(', ') || 'no frameworks or test runners';
+}
+
+/**
+ * Find workspace directories of a monorepo matching given globs, e.g. `packages/*`.
+ *
+ * Returns a map of directories (relative to `cwd`, sorted) to the globs matching them, in the order of `globs`.
+ */
+export function findWorkspaceDirs(globs: string[], cwd = process.cwd()) {
+  const dirs = new Map<string, string[]>();
+  for (const glob of globs) {
+    const matched = globSync(glob, {
+      cwd,
+      expandDirectories: false,
+      ignore: ['**/node_modules/**'],
+      onlyDirectories: true,
+    });
+    for (const dir of matched.map((match) => match.replace(/\/$/, ''))) {
+      dirs.set(dir, [...(dirs.get(dir) ?? []), glob]);
+    }
+  }
+  return new Map([...dirs].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Read import aliases from `compilerOptions.paths` of tsconfig.json and `imports` of package.json in given directory.
+ *
+ * Returns a map of aliases to paths relative to the directory, e.g. `{ '@/*': 'src/*', '#internal/*': 'src/internal/*.js' }`
+ */
+export function readAliases(dir = process.cwd()) {
+  const aliases: Record<string, string> = {};
+  const toRelative = (file: string) => path.relative(dir, file).split(path.sep).join('/');
+
+  const packageJsonFile = path.join(dir, 'package.json');
+  if (fs.existsSync(packageJsonFile)) {
+    const { imports = {} }: PackageJson = JSON.parse(fs.readFileSync(packageJsonFile, 'utf8'));
+    for (const [alias, target] of Object.entries(imports)) {
+      // conditional imports, e.g. `{ "#db": { "node": "./src/db.js", "default": "./src/db.browser.js" } }`
+      const file = typeof target === 'string' ? target : target?.default;
+      // other targets are external packages, e.g. `{ "#dep": "dep-polyfill" }`
+      if (typeof file === 'string' && file.startsWith('./')) {
+        aliases[alias] = toRelative(path.resolve(dir, file));
+      }
+    }
+  }
+
+  const tsconfigFile = path.join(dir, 'tsconfig.json');
+  if (fs.existsSync(tsconfigFile)) {
+    // typescript is a peer dependency of typescript-eslint, so it's available in ts projects
+    const ts: typeof import('typescript') = require('typescript');
+    const { config = {} } = ts.readConfigFile(tsconfigFile, ts.sys.readFile);
+    // parsed to resolve `extends`, as paths are often defined in a shared base tsconfig
+    const { options } = ts.parseJsonConfigFileContent(config, ts.sys, dir, undefined, tsconfigFile);
+    // paths are relative to `baseUrl`, or to the tsconfig defining them, when `baseUrl` is not set
+    const basePath = options.baseUrl ?? (options.pathsBasePath as string | undefined) ?? dir;
+    for (const [alias, [target]] of Object.entries(options.paths ?? {})) {
+      if (target) {
+        aliases[alias] = toRelative(path.resolve(basePath, target));
+      }
+    }
+  }
+
+  return aliases;
+}
+
+function detectPackageManager(root: string, packageJson: PackageJson): PackageManager {
+  // e.g. `"packageManager": "yarn@4.5.0"`
+  const name = packageJson.packageManager?.split('@')[0];
+  const packageManager = Object.values(lockfiles).find((manager) => manager === name);
+  if (packageManager) {
+    return packageManager;
+  }
+  // lockfile might be in a parent directory, when in a monorepo workspace
+  let dir = root;
+  for (;;) {
+    const lockfile = Object.keys(lockfiles).find((file) => fs.existsSync(path.join(dir, file)));
+    if (lockfile) {
+      return lockfiles[lockfile];
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return 'npm';
+    }
+    dir = parent;
+  }
+}
+
+function isDirectory(dir: string) {
+  return fs.existsSync(dir) && fs.statSync(dir).isDirectory();
+}
@@ -1,37 +1,30 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
 import js from '@eslint/js';
 import stylistic from '@stylistic/eslint-plugin';
 import tsPlugin from '@typescript-eslint/eslint-plugin';
 import * as tsParser from '@typescript-eslint/parser';
-import { Linter } from 'eslint';
+import { ESLint, Linter, Rule, SourceCode } from 'eslint';
+import { builtinRules } from 'eslint/use-at-your-own-risk';
 import checkFilePlugin from 'eslint-plugin-check-file';
 import * as importPlugin from 'eslint-plugin-import'; // aliased to eslint-plugin-import-x https://github.com/un-ts/eslint-plugin-import-x
 import perfectionist from 'eslint-plugin-perfectionist';
 import globals from 'globals';
 
-type CustomizeOptions = {
-  // Whether to ban or allow console usage.
-  // Defaults to 'ban-log' (which allows 'console.error()', 'console.warn()' and 'console.info()') when 'react': true, 'allow' otherwise.
-  console?: 'ban' | 'ban-log' | 'allow';
-  // List ts files which should be linted, but are not covered by tsconfig.json to avoid 'Parsing error (...) TSConfig does not include this file'
-  // https://typescript-eslint.io/linting/troubleshooting/#i-get-errors-telling-me-eslint-was-configured-to-run--however-that-tsconfig-does-not--none-of-those-tsconfigs-include-this-file
-  disableTypeChecked?: string[];
-  // Number of spaces to use for indentation, or 'tab' to use tabs (default: 2)
-  indent?: number | 'tab';
-  // Directory where test files are located. (default: `{spec,test,tests}`)
-  // Example: `src` for single directory, `{spec,tests}` to include multiple directories.
-  // In addition, files in `__tests__` folders and files with `*.spec.*`/`*.test.*` filenames are picked up as test files, even outside of `testsDir`.
-  testsDir?: string;
-  // Whether to enable Cypress-specific rules. (default: false)
-  cypress?: boolean;
-  // Whether to enable Jest-specific rules. (default: false)
-  jest?: boolean;
-  // Whether to enable Mocha-specific rules. (default: false)
-  mocha?: boolean;
-  // Whether to enable React-specific rules. (default: false)
-  react?: boolean;
-  // Whether to enable Vitest-specific rules. (default: false)
-  vitest?: boolean;
-};
+import { detectProject, findWorkspaceDirs, readAliases, withDetectedOptions } from './detect';
+import {
+  type CustomizeOptions,
+  type Environment,
+  type FileNamingOptions,
+  type GraphqlOptions,
+  type Profile,
+  type RuleCategory,
+  type RuleSeverity,
+  type WorkspaceOptions,
+  validateOptions,
+} from './options';
+import { defaultTestBlockFunctions, plugin } from './plugin';
 
 // shared settings - for js + ts equivalent rules
 const shared: Linter.RulesRecord = {
@@ -39,47 +32,447 @@ const shared: Linter.RulesRecord = {
   'no-unused-vars': ['error', { varsIgnorePattern: '^_', args: 'none', caughtErrors: 'none' }],
 };
 
+// formatting rules, which are handled by prettier when `prettier` option is enabled
+// based on https://github.com/prettier/eslint-config-prettier - only the rules used in this config are listed
+// Note: '@stylistic/spaced-comment', '@stylistic/jsx-curly-brace-presence' and '@stylistic/jsx-self-closing-comp'
+// are not about formatting, prettier does not change comments and jsx syntax, so these rules are kept.
+const formattingRules = [
+  '@stylistic/array-bracket-spacing',
+  '@stylistic/block-spacing',
+  '@stylistic/brace-style',
+  '@stylistic/comma-dangle',
+  '@stylistic/comma-spacing',
+  '@stylistic/computed-property-spacing',
+  '@stylistic/eol-last',
+  '@stylistic/func-call-spacing',
+  '@stylistic/generator-star-spacing',
+  '@stylistic/indent',
+  '@stylistic/jsx-child-element-spacing',
+  '@stylistic/jsx-closing-bracket-location',
+  '@stylistic/jsx-closing-tag-location',
+  '@stylistic/jsx-curly-spacing',
+  '@stylistic/jsx-equals-spacing',
+  '@stylistic/jsx-first-prop-new-line',
+  '@stylistic/jsx-function-call-newline',
+  '@stylistic/jsx-indent-props',
+  '@stylistic/jsx-props-no-multi-spaces',
+  '@stylistic/jsx-quotes',
+  '@stylistic/jsx-tag-spacing',
+  '@stylistic/jsx-wrap-multilines',
+  '@stylistic/key-spacing',
+  '@stylistic/keyword-spacing',
+  '@stylistic/max-len',
+  '@stylistic/member-delimiter-style',
+  '@stylistic/no-extra-semi',
+  '@stylistic/no-mixed-spaces-and-tabs',
+  '@stylistic/no-multiple-empty-lines',
+  '@stylistic/no-trailing-spaces',
+  '@stylistic/no-whitespace-before-property',
+  '@stylistic/object-curly-spacing',
+  '@stylistic/quote-props',
+  '@stylistic/quotes',
+  '@stylistic/rest-spread-spacing',
+  '@stylistic/semi',
+  '@stylistic/semi-spacing',
+  '@stylistic/space-before-blocks',
+  '@stylistic/space-before-function-paren',
+  '@stylistic/space-in-parens',
+  '@stylistic/space-infix-ops',
+  '@stylistic/switch-colon-spacing',
+  '@stylistic/template-curly-spacing',
+  '@stylistic/template-tag-spacing',
+  '@stylistic/yield-star-spacing',
+  // from 'eslint:recommended' - conflicts with prettier in some edge cases
+  'no-unexpected-multiline',
+  // 'multi-line' option conflicts with prettier, when it wraps a long statement without braces to the next line
+  'curly',
+];
+
+// globals provided by each runtime environment
+const environmentGlobals: Record<Environment, Linter.Globals> = {
+  node: globals.node,
+  browser: globals.browser,
+  worker: globals.worker,
+  serviceworker: { ...globals.worker, ...globals.serviceworker },
+  // isomorphic code - only the globals available in both node and browser
+  shared: Object.fromEntries(
+    Object.entries(globals.node).filter(([name]) => name in globals.browser)
+  ),
+};
+
+// well-known runtime-specific globals, reported when used in an environment which does not provide them.
+// `no-undef` takes care of that in js files, but it is disabled for ts files by 'typescript-eslint:eslint-recommended'
+const runtimeSpecificGlobals = [
+  // node
+  '__dirname',
+  '__filename',
+  'Buffer',
+  'clearImmediate',
+  'exports',
+  'global',
+  'module',
+  'process',
+  'require',
+  'setImmediate',
+  // browser
+  'alert',
+  'confirm',
+  'document',
+  'history',
+  'localStorage',
+  'location',
+  'navigator',
+  'prompt',
+  'self',
+  'sessionStorage',
+  'window',
+];
+
+// our overrides for type-aware rules, when `typeChecked` option is enabled
+const typeCheckedOverrides: Linter.RulesRecord = {
+  // allow explicitly ignoring a promise with `void` and fire-and-forget IIFEs e.g. `(async () => {})()`
+  '@typescript-eslint/no-floating-promises': ['error', { ignoreVoid: true, ignoreIIFE: true }],
+  // allow async handlers where a void-returning callback is expected,
+  // i.a. express middlewares and route handlers `app.get('/', async (req, res) => {})`, or react event handlers `onClick={async () => {}}`
+  '@typescript-eslint/no-misused-promises': [
+    'error',
+    { checksVoidReturn: { arguments: false, attributes: false } },
+  ],
+  // allow numbers and booleans in template literals, e.g. in log messages and graphql queries
+  '@typescript-eslint/restrict-template-expressions': [
+    'error',
+    { allowBoolean: true, allowNullish: true, allowNumber: true },
+  ],
+  // `no-explicit-any` is off, as not all old files are 'strict' yet (see 'overrides/ts' block),
+  // so `any` is still widespread and would be reported on every usage
+  '@typescript-eslint/no-unsafe-argument': 'off',
+  '@typescript-eslint/no-unsafe-assignment': 'off',
+  '@typescript-eslint/no-unsafe-call': 'off',
+  '@typescript-eslint/no-unsafe-member-access': 'off',
+  '@typescript-eslint/no-unsafe-return': 'off',
+};
+
+// stricter rules for new code, when `strict` option is enabled (see 'overrides/ts' block for the reasoning)
+const strictRules: Linter.RulesRecord = {
+  '@typescript-eslint/no-explicit-any': 'error',
+  // allow only `@ts-expect-error` with a description why it's needed
+  '@typescript-eslint/ban-ts-comment': [
+    'error',
+    { 'ts-expect-error': 'allow-with-description', 'ts-ignore': true, 'ts-nocheck': true },
+  ],
+  '@typescript-eslint/no-non-null-assertion': 'error',
+  '@typescript-eslint/explicit-module-boundary-types': 'error',
+};
+
+// type-aware rules turned off by `typeCheckedOverrides` for legacy code, enabled back for strict code
+const strictTypeCheckedRules: Linter.RulesRecord = {
+  '@typescript-eslint/no-unsafe-argument': 'error',
+  '@typescript-eslint/no-unsafe-assignment': 'error',
+  '@typescript-eslint/no-unsafe-call': 'error',
+  '@typescript-eslint/no-unsafe-member-access': 'error',
+  '@typescript-eslint/no-unsafe-return': 'error',
+};
+
+// 'perfectionist' uses .localeCompare() which by default which sorts '123..AaBbCc..'
+// we want to put uppercase before lowercase, the rest stays the same (esp. symbols)
+// Alphabet from 'perfectionist' could be used, such as
+// `Alphabet.generateRecommendedAlphabet().sortByNaturalSort('en-US').placeAllWithCaseBeforeAllWithOtherCase('uppercase').getCharacters()`
+// but that contains 128k chars, which is unnecessarily large
+// so recreated only the needed part of the alphabet, with uppercase before lowercase
+// (also used for sorting keys of package.json, see `json` option)
+const sortingAlphabet = '_-.@/#~$0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// camelCase or PascalCase (e.g. classes), `_` prefix is allowed for helper files (see `mocha/ignore` block)
+const moduleNamingConvention = '?(_)[a-zA-Z]*([a-zA-Z0-9])';
+
+// naming conventions of files, middle extensions are ignored (e.g. `Button.test.tsx` is checked as `Button`)
+const defaultFileNamingConventions: Record<string, string> = {
+  // react components (stories are named after the component, or after the topic, see `storybook` option)
+  '**/!(index|routes|use*|with*|*.stories).?(m|c)[jt]sx': 'PASCAL_CASE',
+  // hooks and HOCs
+  '**/(use|with)*.?(m|c)[jt]sx': 'CAMEL_CASE',
+  '**/*.less': 'CAMEL_CASE',
+};
+
+// naming conventions of other modules, enabled with `fileNaming` option (or `fileNaming` factory)
+const moduleFileNamingConventions: Record<string, string> = {
+  // ts modules, except migrations and declaration files (e.g. `vite-env.d.ts`),
+  // at the root and in folders (`**/` followed by a negated folder does not match root files)
+  '!(*.d).?(m|c)ts': moduleNamingConvention,
+  '**/!(migrations)/!(*.d).?(m|c)ts': moduleNamingConvention,
+  // test files are named after the tested module
+  '**/*.{spec,test}.?(m|c)[jt]s?(x)': moduleNamingConvention,
+  // migrations are prefixed with a timestamp, e.g. `20240131120000_add_users.ts` (knex) or `20240131120000-add-users.js` (sequelize)
+  '**/migrations/*.?(m|c)[jt]s': '+([0-9])[_-]+([a-z0-9_-])',
+  // graphql documents, e.g. `getUser.graphql` or `UserFragment.graphql`
+  '**/*.{graphql,gql}': moduleNamingConvention,
+};
+
+// components of our component library, mapped to native elements they render
+const defaultA11yComponents: Record<string, string> = {
+  Button: 'button',
+  Link: 'a',
+};
+
+// globals provided by our test setups
+const defaultTestGlobals: Record<string, 'readonly' | 'writable'> = {
+  DB: 'readonly',
+  GQL: 'readonly',
+  Setup: 'readonly',
+  app: 'readonly',
+};
+
+// end-to-end tests of playwright
+const defaultPlaywrightFiles = ['e2e/**/*.?(m|c)[jt]s'];
+
+// stories of storybook, e.g. `Button.stories.tsx`
+const defaultStorybookFiles = ['**/*.stories.?(m|c)[jt]s?(x)'];
+
+// js/ts code blocks in markdown files
+const markdownCodeBlockFiles = ['**/*.md/*.?(m|c)[jt]s?(x)'];
+
+// files and directories not linted at all, also skipped by `coding-standard check` when formatting
+const globalIgnores = ['node_modules', 'build', 'coverage', '.yalc', 'vite.config.ts.*'];
+
+// categories of rules for `severity` option, by rule name or by plugin prefix,
+// other rules are categorized by their type: 'layout' as 'stylistic', 'problem' as 'bugs', and 'suggestion' as 'suggestions'
+const ruleCategories: Record<string, RuleCategory> = {
+  '@stylistic': 'stylistic',
+  import: 'imports',
+  'n/prefer-node-protocol': 'imports',
+  'ovos/prefer-alias': 'imports',
+  'perfectionist/sort-named-exports': 'imports',
+  'perfectionist/sort-named-imports': 'imports',
+  '@typescript-eslint/naming-convention': 'naming',
+  camelcase: 'naming',
+  'check-file': 'naming',
+  'graphql/naming-convention': 'naming',
+  'ovos/default-export-matches-filename': 'naming',
+  'chai-friendly': 'tests',
+  cypress: 'tests',
+  jest: 'tests',
+  mocha: 'tests',
+  'ovos/no-focused-conditional-tests': 'tests',
+  'ovos/valid-conditional-test-condition': 'tests',
+  'ovos/valid-conditional-test-title': 'tests',
+  playwright: 'tests',
+  vitest: 'tests',
+};
+
+// expects in before/after hooks are perfectly fine
+const hooks = ['beforeAll', 'beforeEach', 'afterEach', 'afterAll'];
+
 /**
- * Customize the eslint configuration.
+ * Build a plugin with typescript-eslint rules, which only run in files with given pragma in a header comment.
+ * Rules are available under the same names as in typescript-eslint, e.g. `ovos-strict/no-explicit-any`.
+ */
+function strictPragmaPlugin(pragma: string, ruleNames: string[]) {
+  const hasPragma = new WeakMap<SourceCode, boolean>();
+  const checkPragma = (sourceCode: SourceCode) => {
+    if (!hasPragma.has(sourceCode)) {
+      // header comments only - i.e. comments before the first statement
+      const headerEnd = sourceCode.ast.body[0]?.range![0] ?? Infinity;
+      hasPragma.set(
+        sourceCode,
+        sourceCode
+          .getAllComments()
+          .some((comment) => comment.range![1] <= headerEnd && comment.value.trim() === pragma)
+      );
+    }
+    return hasPragma.get(sourceCode)!;
+  };
+
+  const rules: Record<string, Rule.RuleModule> = {};
+  for (const name of ruleNames) {
+    // typed with the rule context of typescript-eslint, which is eslint's one with deprecated methods at runtime
+    const rule = tsPlugin.rules[name as keyof typeof tsPlugin.rules] as unknown as Rule.RuleModule;
+    rules[name] = {
+      meta: rule.meta,
+      create(context) {
+        // also skip type-aware rules in files without type information (see `disableTypeChecked`)
+        const skip =
+          !checkPragma(context.sourceCode) ||
+          (`@typescript-eslint/${name}` in strictTypeCheckedRules &&
+            !context.sourceCode.parserServices?.program);
+        return skip ? {} : rule.create(context);
+      },
+    };
+  }
+
+  return { rules };
+}
+
+/**
+ * Build config blocks providing globals for files matching each glob in `environments` option.
+ */
+function environmentsConfig(environments: Record<string, Environment | Environment[]>) {
+  const globs = Object.keys(environments);
+
+  return globs.flatMap((glob, index): Linter.Config[] => {
+    const envs = ([] as Environment[]).concat(environments[glob]);
+    const envGlobals: Linter.Globals = Object.assign(
+      {},
+      ...envs.map((env) => environmentGlobals[env])
+    );
+    // later entries take precedence, so that e.g. `{ '**': 'node', 'src/client/**': 'browser' }` works as expected
+    const ignores = globs.slice(index + 1);
+
+    return [
+      {
+        name: `environments/${glob}`,
+        // nested array - file has to match both patterns
+        files: [[glob, '**/*.?(m|c)[jt]s?(x)']],
+        ignores,
+        languageOptions: { globals: envGlobals },
+      },
+      {
+        name: `environments/${glob}/ts`,
+        files: [[glob, '**/*.?(m|c)ts?(x)']],
+        ignores,
+        rules: {
+          // unlike `no-restricted-globals`, allows feature detection with `typeof`, e.g. `typeof window !== 'undefined'` in shared code
+          'ovos/no-restricted-globals': [
+            'error',
+            ...runtimeSpecificGlobals
+              .filter((name) => !(name in envGlobals))
+              .map((name) => ({
+                name,
+                message: `'${name}' is not available in '${envs.join("', '")}' environment.`,
+              })),
+          ],
+        },
+      },
+    ];
+  });
+}
+
+type BaseConfigOptions = Pick<
+  CustomizeOptions,
+  'aliases' | 'console' | 'environments' | 'indent' | 'prettier'
+>;
+type TypescriptConfigOptions = Pick<
+  CustomizeOptions,
+  'disableTypeChecked' | 'profile' | 'strict' | 'typeChecked'
+>;
+type ReactConfigOptions = Pick<
+  CustomizeOptions,
+  'a11y' | 'a11yComponents' | 'environments' | 'indent' | 'prettier'
+>;
+type TestsConfigOptions = Pick<
+  CustomizeOptions,
+  'testsDir' | 'testFiles' | 'testGlobals' | 'testBlockFunctions'
+>;
+type PlaywrightConfigOptions = {
+  // globs of end-to-end test files (default: `['e2e/**/*.?(m|c)[jt]s']`)
+  files?: string[];
+};
+type StorybookConfigOptions = {
+  // globs of story files (default: `['**/*.stories.?(m|c)[jt]s?(x)']`)
+  files?: string[];
+};
+type NodeConfigOptions = {
+  // module system of `.js` and `.ts` files, i.e. `type` of package.json (default: 'commonjs')
+  moduleType?: 'commonjs' | 'module';
+  // supported node versions, i.e. `engines.node` of package.json (default: read by eslint-plugin-n from the nearest package.json)
+  version?: string;
+};
+
+/**
+ * Remove rules for code formatting, which is handled by prettier (incl. `indent`, `max-len` and `quotes`).
+ */
+function withoutFormattingRules(config: Linter.Config[]) {
+  return config.map((block) =>
+    block.rules
+      ? {
+          ...block,
+          rules: Object.fromEntries(
+            Object.entries(block.rules).filter(([rule]) => !formattingRules.includes(rule))
+          ),
+        }
+      : block
+  );
+}
+
+/**
+ * Set severities of rules by their category (see `ruleCategories`), rules turned off stay off.
+ */
+function withSeverity(
+  config: Linter.Config[],
+  severity: RuleSeverity | Partial<Record<RuleCategory, RuleSeverity>>
+) {
+  const plugins: Record<string, ESLint.Plugin> = Object.assign(
+    {},
+    ...config.map((block) => block.plugins)
+  );
+  const categorize = (rule: string): RuleCategory => {
+    const prefix = rule.includes('/') ? rule.slice(0, rule.lastIndexOf('/')) : '';
+    const category = ruleCategories[rule] ?? ruleCategories[prefix];
+    if (category) {
+      return category;
+    }
+    if (formattingRules.includes(rule)) {
+      return 'stylistic';
+    }
+    const { type } =
+      (prefix
+        ? (plugins[prefix]?.rules?.[rule.slice(prefix.length + 1)] as Rule.RuleModule | undefined)
+            ?.meta
+        : builtinRules.get(rule)?.meta) ?? {};
+    return type === 'layout' ? 'stylistic' : type === 'problem' ? 'bugs' : 'suggestions';
+  };
+  const severityOf = (rule: string) =>
+    typeof severity === 'string' ? severity : severity[categorize(rule)];
+
+  return config.map((block) =>
+    block.rules
+      ? {
+          ...block,
+          rules: Object.fromEntries(
+            Object.entries(block.rules).map(([rule, entry]) => {
+              const [current, ...options] = Array.isArray(entry) ? entry : [entry];
+              // e.g. `no-console` stays off with `console: 'allow'`
+              if (current === 'off' || current === 0) {
+                return [rule, entry];
+              }
+              // rules of categories not listed keep their severity, e.g. `warn` of `playwright/no-wait-for-timeout`
+              const ruleSeverity = severityOf(rule);
+              if (!ruleSeverity) {
+                return [rule, entry];
+              }
+              return [rule, options.length ? [ruleSeverity, ...options] : ruleSeverity];
+            })
+          ),
+        }
+      : block
+  );
+}
+
+/**
+ * Common settings and rules for js and ts files: 'eslint:recommended', stylistic rules, imports order etc.
  *
  * @param {Object} options
- * @param {'ban' | 'ban-log' | 'allow'} [options.console] - Whether to ban or allow console usage. Defaults to 'ban-log' (which allows 'console.error()', 'console.warn()' and 'console.info()') when 'react': true, 'allow' otherwise.
- * @param {string[]} [options.disableTypeChecked] - List ts files which should be linted, but are not covered by tsconfig.json to avoid 'Parsing error (...) TSConfig does not include this file' https://typescript-eslint.io/linting/troubleshooting/#i-get-errors-telling-me-eslint-was-configured-to-run--however-that-tsconfig-does-not--none-of-those-tsconfigs-include-this-file
+ * @param {Record<string, string>} [options.aliases] - Map of import aliases to paths relative to cwd, e.g. `{ '@/*': 'src/*' }`.
+ * @param {'ban' | 'ban-log' | 'allow'} [options.console='allow'] - Whether to ban or allow console usage.
+ * @param {Record<string, Environment | Environment[]>} [options.environments] - Map of globs to runtime environments, which provide globals for matching files.
  * @param {number | 'tab'} [options.indent=2] - Number of spaces to use for indentation, or 'tab' to use tabs.
- * @param {string} [options.testsDir={spec,test,tests}] - Directory where test files are located. Example: `src` for single directory, `{spec,tests}` to include multiple directories. In addition, files in `__tests__` folders and files with `*.spec.*`/`*.test.*` filenames are picked up as test files, even outside of `testsDir`.
- * @param {boolean} [options.cypress=false] - Whether to enable Cypress-specific rules.
- * @param {boolean} [options.jest=false] - Whether to enable Jest-specific rules.
- * @param {boolean} [options.mocha=false] - Whether to enable Mocha-specific rules.
- * @param {boolean} [options.react=false] - Whether to enable React-specific rules.
- * @param {boolean} [options.vitest=false] - Whether to enable Vitest-specific rules.
+ * @param {boolean} [options.prettier=false] - Whether formatting is handled by prettier.
  * @returns {import('eslint').Linter.Config[]}
  */
-function customize(options: CustomizeOptions = {}) {
-  const {
-    disableTypeChecked = [],
-    indent = 2,
-    testsDir = '{spec,test,tests}',
-    cypress = false,
-    jest = false,
-    mocha = false,
-    react = false,
-    vitest = false,
-  } = options;
-  const consoleUsage = options.console ?? (react ? 'ban-log' : 'allow');
+function baseConfig(options: BaseConfigOptions = {}) {
+  const { aliases = {}, environments, indent = 2, prettier = false } = options;
+  const consoleUsage = options.console ?? 'allow';
 
   const config: Linter.Config[] = [
     // common settings for all files
     {
-      ignores: ['node_modules', 'build', 'coverage', '.yalc', 'vite.config.ts.*'],
+      ignores: globalIgnores,
     },
     {
       name: 'recommended/js',
       files: ['**/*.?(m|c)[jt]s?(x)'],
       rules: js.configs.recommended.rules, // 'eslint:recommended' rules
-      languageOptions: {
-        // @todo configurable env 'node', 'browser'
-        globals: globals.node,
-      },
+      // when `environments` are configured, globals are provided by 'environments/*' blocks instead
+      ...(!environments && { languageOptions: { globals: globals.node } }),
       plugins: {
         // https://eslint.style/ providing replacement for formatting rules, which are now deprecated in eslint and @typescript-eslint
         '@stylistic': { rules: stylistic.rules },
@@ -90,60 +483,18 @@ function customize(options: CustomizeOptions = {}) {
         perfectionist: {
           type: 'custom',
           ignoreCase: false,
-          // 'perfectionist' uses .localeCompare() which by default which sorts '123..AaBbCc..'
-          // we want to put uppercase before lowercase, the rest stays the same (esp. symbols)
-          // Alphabet from 'perfectionist' could be used, such as
-          // `Alphabet.generateRecommendedAlphabet().sortByNaturalSort('en-US').placeAllWithCaseBeforeAllWithOtherCase('uppercase').getCharacters()`
-          // but that contains 128k chars, which is unnecessarily large
-          // so recreated only the needed part of the alphabet, with uppercase before lowercase
-          alphabet: '_-.@/#~$0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
-        },
-      },
-    },
-    // common settings for typescript files
-    {
-      name: 'recommended/ts',
-      files: ['**/*.?(m|c)ts?(x)'],
-      languageOptions: {
-        parser: tsParser,
-        parserOptions: {
-          // https://typescript-eslint.io/packages/parser/
-          projectService: true,
+          alphabet: sortingAlphabet,
         },
       },
-      plugins: {
-        '@typescript-eslint': { rules: tsPlugin.rules as any },
-        import: importPlugin,
-      } satisfies Linter.Config['plugins'],
-      settings: {
-        // `import-x` prefix is hardcoded in `eslint-plugin-import-x` to read its settings, ignores the alias defined in `plugins`
-        'import-x/resolver': { typescript: { alwaysTryTypes: true } },
-      },
-      rules: {
-        // configures the typescript-eslint plugin to use the recommended rules, using flat config format
-        // this disables some rules from 'eslint:recommended' that are conflicting with 'typescript-eslint:recommended' rules
-        ...tsPlugin.configs['eslint-recommended']!.overrides![0].rules,
-        // use only 'recommended' rules, and not 'recommended-type-checked'.
-        // Type checking is done in IDE and `yarn type-check` on CI. No need to involve also eslint there.
-        ...tsPlugin.configs['recommended'].rules,
-      },
-    },
-    {
-      name: 'workaround-for-files-not-included-in-tsconfig',
-      // list ts files which should be linted, but are not covered by tsconfig.json to avoid 'Parsing error (...) TSConfig does not include this file'
-      // https://typescript-eslint.io/linting/troubleshooting/#i-get-errors-telling-me-eslint-was-configured-to-run--however-that-tsconfig-does-not--none-of-those-tsconfigs-include-this-file
-      files: [
-        // defaults will cover e.g. jest.config.ts, vite.config.ts, vitest.setup.ts
-        '*.config.ts',
-        '*.setup.ts',
-        ...disableTypeChecked,
-      ],
-      languageOptions: { parserOptions: { projectService: null } }, // this is what basically the 'disable-type-checked' config does, when 'recommended-type-checked' is not used
     },
   ];
 
+  if (environments) {
+    config.push(...environmentsConfig(environments));
+  }
+
   config.push(
-    // our rules and overrides (1/3: js files)
+    // our rules and overrides (js files)
     {
       name: 'overrides/js',
       files: ['**/*.?(m|c)js?(x)'],
@@ -164,75 +515,13 @@ function customize(options: CustomizeOptions = {}) {
         'prefer-spread': 'error',
       },
     },
-    // our rules and overrides (2/3: ts files)
-    {
-      name: 'overrides/ts',
-      files: ['**/*.?(m|c)ts?(x)'],
-      rules: {
-        // ** typescript-eslint:recommended overrides:
-        // Even though we have `strict: true` in tsconfig.json and write strict code in new files, not all old files are 'strict' yet.
-        // The project was written in js at first, then we introduced "loose" typescript. We use `ts-strictify` to push for strict mode incrementally.
-        // Linting all existing files with "strict mode"-related rules e.g. 'no-explicit-any' etc. would list too many errors to handle at the moment.
-        '@typescript-eslint/no-explicit-any': 'off',
-        // allow @ts-ignore
-        '@typescript-eslint/ban-ts-comment': 'off',
-        // we still sometimes want to use dynamic, sync `require()` instead of `await import()`
-        '@typescript-eslint/no-require-imports': 'off',
-        // allow `interface I extends Base<Param> {}` syntax
-        '@typescript-eslint/no-empty-object-type': [
-          'error',
-          { allowInterfaces: 'with-single-extends' },
-        ],
-        // even though the rules blow are already reconfigured for eslint:recommended,
-        // they need to be reconfigured again for typescript files, with the same options repeated
-        '@typescript-eslint/no-unused-expressions': shared['no-unused-expressions'],
-        '@typescript-eslint/no-unused-vars': shared['no-unused-vars'],
-        // ** end typescript-eslint:recommended overrides
-
-        // additional rules
-        '@typescript-eslint/ban-tslint-comment': 'error',
-        '@typescript-eslint/naming-convention': [
-          'error',
-          {
-            selector: 'function',
-            format: ['camelCase', 'PascalCase'], // PascalCase to allow React function components
-          },
-          {
-            selector: 'method',
-            format: ['camelCase'],
-          },
-          {
-            selector: 'objectLiteralMethod',
-            // snake_case to allow i.a. graphql resolvers for fields which are snake_cased
-            format: ['camelCase', 'snake_case'],
-            // allow e.g. `__resolveType` graphql resolver method
-            leadingUnderscore: 'allowDouble',
-          },
-          {
-            selector: 'typeLike',
-            format: ['PascalCase', 'UPPER_CASE'],
-          },
-          {
-            selector: 'import',
-            format: ['camelCase', 'PascalCase'],
-          },
-          // Note: There is no point to lint property names, as we have them all mixed
-          // aside from regular camelCased properties, there are snake_cased e.g. for objection models
-          // PascalCase for graphql type names, kebab-case for headers,
-          // UPPER_CASE for constants, jwt claims, and some other cases
-          // and they all might be also prefixed with single or double underscores.
-          // So in the end all styles are in use, with no real reason to limit the usage down.
-          // Similarly with variables, which are also in use in all styles.
-        ],
-        '@typescript-eslint/no-for-in-array': 'error',
-      },
-    },
-    // our rules and overrides (3/3: all files)
+    // our rules and overrides (js + ts files)
     {
       name: 'overrides/js-ts',
       files: ['**/*.?(m|c)[jt]s?(x)'],
       plugins: {
         import: importPlugin,
+        ovos: plugin,
       },
       rules: {
         // ** eslint:recommended overrides:
@@ -364,6 +653,14 @@ function customize(options: CustomizeOptions = {}) {
                 group: 'internal',
                 position: 'before',
               },
+              // aliases from tsconfig.json `paths` and package.json `imports`, e.g. `@/*` -> `@/**`
+              ...Object.keys(aliases).map((alias) => ({
+                pattern: alias.replace('*', '**'),
+                // otherwise patterns beginning with `#` (package.json imports) are treated as comments by minimatch
+                patternOptions: { nocomment: true },
+                group: 'internal',
+                position: 'before',
+              })),
             ],
           },
         ],
@@ -373,6 +670,17 @@ function customize(options: CustomizeOptions = {}) {
         'no-new-wrappers': 'error',
         'no-param-reassign': 'error',
         'object-shorthand': 'error',
+        ...(Object.keys(aliases).length && {
+          // report deep relative imports, e.g. `../../../utils`, which can use an alias instead
+          'ovos/prefer-alias': [
+            'error',
+            {
+              aliases: Object.fromEntries(
+                Object.entries(aliases).map(([alias, target]) => [alias, path.resolve(target)])
+              ),
+            },
+          ],
+        }),
         'one-var': ['error', 'never'],
         'perfectionist/sort-named-exports': ['error', { groupKind: 'types-first' }],
         'perfectionist/sort-named-imports': [
@@ -388,153 +696,591 @@ function customize(options: CustomizeOptions = {}) {
     }
   );
 
-  if (react) {
-    const reactPlugin = require('eslint-plugin-react');
-    const reactHooksPlugin = require('eslint-plugin-react-hooks');
-
-    // our rules and overrides (react 1/2: tsx only)
-    config.push(
-      {
-        name: 'react/tsx',
-        files: ['**/*.?(m|c)tsx'],
-        rules: {
-          // allow i.a. `type Props = {}` in react components
-          // https://github.com/typescript-eslint/typescript-eslint/issues/2063#issuecomment-675156492
-          '@typescript-eslint/no-empty-object-type': [
-            'error',
-            { allowInterfaces: 'with-single-extends', allowWithName: 'Props$' },
-          ],
-        },
-      },
-      // our rules and overrides (react 2/2: jsx+tsx)
-      {
-        name: 'react/jsx-tsx',
-        files: ['**/*.?(m|c)[jt]sx'],
-        languageOptions: {
-          parserOptions: {
-            ecmaFeatures: {
-              jsx: true,
-            },
-          },
-          globals: globals.browser,
-        },
-        plugins: {
-          'check-file': checkFilePlugin,
-          react: reactPlugin,
-          'react-hooks': reactHooksPlugin,
-        },
-        settings: {
-          react: {
-            version: 'detect', // https://github.com/jsx-eslint/eslint-plugin-react/issues/3758
-          },
-        },
-        rules: {
-          // https://eslint.style/packages/jsx
-          // @stylistic/jsx does not provide a recommended rule set, add relevant rules manually
-          '@stylistic/jsx-child-element-spacing': 'error',
-          '@stylistic/jsx-closing-bracket-location': ['error', 'line-aligned'],
-          '@stylistic/jsx-closing-tag-location': 'error',
-          '@stylistic/jsx-curly-brace-presence': ['error', { propElementValues: 'always' }],
-          '@stylistic/jsx-curly-spacing': 'error',
-          '@stylistic/jsx-equals-spacing': 'error',
-          '@stylistic/jsx-first-prop-new-line': 'error',
-          '@stylistic/jsx-function-call-newline': 'error',
-          '@stylistic/jsx-indent-props': ['error', indent],
-          '@stylistic/jsx-props-no-multi-spaces': 'error',
-          '@stylistic/jsx-quotes': 'error',
-          '@stylistic/jsx-self-closing-comp': 'error', // replaces `react/self-closing-comp`, even though it's not deprecated yet
-          '@stylistic/jsx-tag-spacing': [
-            'error',
-            {
-              beforeSelfClosing: 'proportional-always',
-              beforeClosing: 'proportional-always',
-            },
-          ],
-          '@stylistic/jsx-wrap-multilines': 'error',
-          // add `eslint-react` recommended set + a few additional rules
-          // https://github.com/jsx-eslint/eslint-plugin-react#list-of-supported-rules
-          // watch out: `prop-types` and `display-name` are pretty buggy - see github issues:
-          // https://github.com/search?q=repo%3Ajsx-eslint%2Feslint-plugin-react+prop-types&type=issues
-          // https://github.com/search?q=repo%3Ajsx-eslint%2Feslint-plugin-react+display-name&type=issues
-          ...reactPlugin.configs.recommended.rules,
-          'react/jsx-no-bind': ['error', { allowArrowFunctions: true }],
-          'react/jsx-no-useless-fragment': ['error', { allowExpressions: true }],
-          // https://github.com/facebook/react/tree/main/packages/eslint-plugin-react-hooks
-          'react-hooks/rules-of-hooks': 'error',
-          'react-hooks/exhaustive-deps': 'error',
-          // @todo add a11y rules https://github.com/jsx-eslint/eslint-plugin-jsx-a11y
-        },
-      }
-    );
-  }
-
-  // file naming conventions
-  config.push({
-    name: 'file-naming-conventions',
-    plugins: {
-      'check-file': checkFilePlugin,
-    },
-    rules: {
-      'check-file/filename-naming-convention': [
-        'error',
-        {
-          '**/!(index|routes|use*|with*).?(m|c)[jt]sx': 'PASCAL_CASE',
-          '**/(use|with)*.?(m|c)[jt]sx': 'CAMEL_CASE',
-          '**/*.less': 'CAMEL_CASE',
-        },
-        { ignoreMiddleExtensions: true },
-      ],
-    },
-  });
+  return prettier ? withoutFormattingRules(config) : config;
+}
 
-  // patterns to extra (helper) files in testsDir, which are not test suites
-  const ignoreInTestsDir = [`${testsDir}/**/_*`, `${testsDir}/**/*.skip.*`];
+/**
+ * Settings and rules for ts files: 'typescript-eslint:recommended', naming conventions etc.
+ *
+ * @param {Object} options
+ * @param {string[]} [options.disableTypeChecked] - List ts files which should be linted, but are not covered by tsconfig.json.
+ * @param {'editor' | 'pre-commit' | 'ci'} [options.profile='ci'] - Where the config is used. Type-aware rules are turned off in 'editor' and 'pre-commit' profiles, the typescript import resolver in 'editor' profile.
+ * @param {{ files?: string[], pragma?: boolean | string }} [options.strict] - Enable stricter rules for new code.
+ * @param {false | 'recommended' | 'strict'} [options.typeChecked=false] - Whether to enable type-aware rules.
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function typescriptConfig(options: TypescriptConfigOptions = {}) {
+  const { disableTypeChecked = [], profile = 'ci', strict } = options;
+  // type information is the most expensive part of linting, so the fast profiles leave type-aware rules to CI
+  const typeChecked = profile === 'ci' ? (options.typeChecked ?? false) : false;
+  // list ts files which should be linted, but are not covered by tsconfig.json to avoid 'Parsing error (...) TSConfig does not include this file'
+  // https://typescript-eslint.io/linting/troubleshooting/#i-get-errors-telling-me-eslint-was-configured-to-run--however-that-tsconfig-does-not--none-of-those-tsconfigs-include-this-file
+  const filesNotIncludedInTsconfig = [
+    // defaults will cover e.g. jest.config.ts, vite.config.ts, vitest.setup.ts
+    '*.config.ts',
+    '*.setup.ts',
+    ...disableTypeChecked,
+  ];
+  // type-aware rules, which need to be turned off for files not covered by tsconfig.json
+  const typeCheckedRules = typeChecked
+    ? [
+        ...Object.keys(tsPlugin.configs[`${typeChecked}-type-checked-only`].rules!),
+        ...Object.keys(typeCheckedOverrides),
+      ]
+    : [];
 
-  if (jest) {
-    const jestPlugin = require('eslint-plugin-jest');
-    config.push({
-      name: 'jest',
-      files: [
-        `${testsDir}/**/*.?(c|m)[jt]s?(x)`,
-        '**/__tests__/**/*.?(c|m)[jt]s?(x)',
-        '**/*.{spec,test}.?(c|m)[jt]s?(x)',
-      ],
+  const config: Linter.Config[] = [
+    // common settings for typescript files
+    {
+      name: 'recommended/ts',
+      files: ['**/*.?(m|c)ts?(x)'],
       languageOptions: {
-        globals: {
-          ...jestPlugin.environments.globals.globals,
-          DB: 'readonly',
-          GQL: 'readonly',
-          Setup: 'readonly',
-          app: 'readonly',
+        parser: tsParser,
+        parserOptions: {
+          // https://typescript-eslint.io/packages/parser/
+          // type information is loaded for all ts files in 'ci' profile, even without type-aware rules,
+          // which reports ts files not included in tsconfig.json
+          projectService: profile === 'ci',
         },
       },
       plugins: {
-        jest: jestPlugin,
-      },
-      rules: {
-        ...jestPlugin.configs.recommended.rules,
-        // the recommended set is too strict for us. Disable rules which we do not want.
-        // https://github.com/jest-community/eslint-plugin-jest#rules
+        '@typescript-eslint': { rules: tsPlugin.rules as any },
+        import: importPlugin,
+      } satisfies Linter.Config['plugins'],
+      ...(profile !== 'editor' && {
+        settings: {
+          // `import-x` prefix is hardcoded in `eslint-plugin-import-x` to read its settings, ignores the alias defined in `plugins`
+          // in 'editor' profile, the built-in node resolver is used, which does not read tsconfig.json (i.a. `import/no-duplicates` compares sources then)
+          'import-x/resolver': { typescript: { alwaysTryTypes: true } },
+        },
+      }),
+      rules: {
+        // configures the typescript-eslint plugin to use the recommended rules, using flat config format
+        // this disables some rules from 'eslint:recommended' that are conflicting with 'typescript-eslint:recommended' rules
+        ...tsPlugin.configs['eslint-recommended']!.overrides![0].rules,
+        // by default use only 'recommended' rules, and not 'recommended-type-checked'.
+        // Type checking is done in IDE and `yarn type-check` on CI. No need to involve also eslint there.
+        // Type-aware rules can be opted in with `typeChecked` option, i.a. to catch unhandled promises.
+        ...(typeChecked
+          ? {
+              ...tsPlugin.configs[`${typeChecked}-type-checked`].rules,
+              ...typeCheckedOverrides,
+            }
+          : tsPlugin.configs['recommended'].rules),
+      },
+    },
+    {
+      name: 'workaround-for-files-not-included-in-tsconfig',
+      files: filesNotIncludedInTsconfig,
+      languageOptions: { parserOptions: { projectService: null } }, // this is what basically the 'disable-type-checked' config does, when 'recommended-type-checked' is not used
+      // type-aware rules would crash without type information ('You have used a rule which requires type information')
+      ...(typeChecked && {
+        rules: Object.fromEntries(typeCheckedRules.map((rule) => [rule, 'off'])),
+      }),
+    },
+    // our rules and overrides (ts files)
+    {
+      name: 'overrides/ts',
+      files: ['**/*.?(m|c)ts?(x)'],
+      rules: {
+        // ** typescript-eslint:recommended overrides:
+        // Even though we have `strict: true` in tsconfig.json and write strict code in new files, not all old files are 'strict' yet.
+        // The project was written in js at first, then we introduced "loose" typescript. We use `ts-strictify` to push for strict mode incrementally.
+        // Linting all existing files with "strict mode"-related rules e.g. 'no-explicit-any' etc. would list too many errors to handle at the moment.
+        // New code can be held to the stricter standard with `strict` option.
+        '@typescript-eslint/no-explicit-any': 'off',
+        // allow @ts-ignore
+        '@typescript-eslint/ban-ts-comment': 'off',
+        // we still sometimes want to use dynamic, sync `require()` instead of `await import()`
+        '@typescript-eslint/no-require-imports': 'off',
+        // allow `interface I extends Base<Param> {}` syntax
+        '@typescript-eslint/no-empty-object-type': [
+          'error',
+          { allowInterfaces: 'with-single-extends' },
+        ],
+        // even though the rules blow are already reconfigured for eslint:recommended,
+        // they need to be reconfigured again for typescript files, with the same options repeated
+        '@typescript-eslint/no-unused-expressions': shared['no-unused-expressions'],
+        '@typescript-eslint/no-unused-vars': shared['no-unused-vars'],
+        // ** end typescript-eslint:recommended overrides
+
+        // additional rules
+        '@typescript-eslint/ban-tslint-comment': 'error',
+        '@typescript-eslint/naming-convention': [
+          'error',
+          {
+            selector: 'function',
+            format: ['camelCase', 'PascalCase'], // PascalCase to allow React function components
+          },
+          {
+            selector: 'method',
+            format: ['camelCase'],
+          },
+          {
+            selector: 'objectLiteralMethod',
+            // snake_case to allow i.a. graphql resolvers for fields which are snake_cased
+            format: ['camelCase', 'snake_case'],
+            // allow e.g. `__resolveType` graphql resolver method
+            leadingUnderscore: 'allowDouble',
+          },
+          {
+            selector: 'typeLike',
+            format: ['PascalCase', 'UPPER_CASE'],
+          },
+          {
+            selector: 'import',
+            format: ['camelCase', 'PascalCase'],
+          },
+          // Note: There is no point to lint property names, as we have them all mixed
+          // aside from regular camelCased properties, there are snake_cased e.g. for objection models
+          // PascalCase for graphql type names, kebab-case for headers,
+          // UPPER_CASE for constants, jwt claims, and some other cases
+          // and they all might be also prefixed with single or double underscores.
+          // So in the end all styles are in use, with no real reason to limit the usage down.
+          // Similarly with variables, which are also in use in all styles.
+        ],
+        '@typescript-eslint/no-for-in-array': 'error',
+      },
+    },
+  ];
+
+  if (strict?.files?.length) {
+    config.push({
+      name: 'strict/ts',
+      files: strict.files.map((glob) => [glob, '**/*.?(m|c)ts?(x)']),
+      rules: strictRules,
+    });
+    if (typeChecked) {
+      config.push({
+        name: 'strict/ts-type-checked',
+        files: strict.files.map((glob) => [glob, '**/*.?(m|c)ts?(x)']),
+        ignores: filesNotIncludedInTsconfig,
+        rules: strictTypeCheckedRules,
+      });
+    }
+  }
+
+  if (strict?.pragma) {
+    const pragma = strict.pragma === true ? '@ovos-strict' : strict.pragma;
+    const rules = { ...strictRules, ...(typeChecked && strictTypeCheckedRules) };
+    const ruleNames = Object.keys(rules).map((rule) => rule.replace('@typescript-eslint/', ''));
+    config.push({
+      name: 'strict/pragma',
+      files: ['**/*.?(m|c)ts?(x)'],
+      // files matching `files` are strict already, the same problems would be reported twice
+      ...(strict.files?.length && { ignores: strict.files }),
+      plugins: {
+        'ovos-strict': strictPragmaPlugin(pragma, ruleNames),
+      },
+      // rules are prefixed with 'ovos-strict/' instead of '@typescript-eslint/', as they only run in files with the pragma
+      rules: Object.fromEntries(
+        Object.entries(rules).map(([rule, entry]) => [
+          rule.replace('@typescript-eslint/', 'ovos-strict/'),
+          entry,
+        ])
+      ),
+    });
+  }
+
+  return config;
+}
+
+/**
+ * Settings and rules for react components in jsx/tsx files.
+ *
+ * @param {Object} options
+ * @param {false | 'recommended' | 'strict'} [options.a11y=false] - Whether to enable accessibility rules from 'recommended' or 'strict' sets of eslint-plugin-jsx-a11y.
+ * @param {Record<string, string>} [options.a11yComponents] - Map of custom components to native elements they render, checked by accessibility rules. (default: `{ Button: 'button', Link: 'a' }`)
+ * @param {Record<string, Environment | Environment[]>} [options.environments] - When set, browser globals are not added to jsx/tsx files.
+ * @param {number | 'tab'} [options.indent=2] - Number of spaces to use for indentation, or 'tab' to use tabs.
+ * @param {boolean} [options.prettier=false] - Whether formatting is handled by prettier.
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function reactConfig(options: ReactConfigOptions = {}) {
+  const {
+    a11y = false,
+    a11yComponents = defaultA11yComponents,
+    environments,
+    indent = 2,
+    prettier = false,
+  } = options;
+  const reactPlugin = require('eslint-plugin-react');
+  const reactHooksPlugin = require('eslint-plugin-react-hooks');
+
+  const config: Linter.Config[] = [
+    // our rules and overrides (react 1/2: tsx only)
+    {
+      name: 'react/tsx',
+      files: ['**/*.?(m|c)tsx'],
+      rules: {
+        // allow i.a. `type Props = {}` in react components
+        // https://github.com/typescript-eslint/typescript-eslint/issues/2063#issuecomment-675156492
+        '@typescript-eslint/no-empty-object-type': [
+          'error',
+          { allowInterfaces: 'with-single-extends', allowWithName: 'Props$' },
+        ],
+      },
+    },
+    // our rules and overrides (react 2/2: jsx+tsx)
+    {
+      name: 'react/jsx-tsx',
+      files: ['**/*.?(m|c)[jt]sx'],
+      languageOptions: {
+        parserOptions: {
+          ecmaFeatures: {
+            jsx: true,
+          },
+        },
+        // when `environments` are configured, it's up to them to decide which files run in the browser
+        ...(!environments && { globals: globals.browser }),
+      },
+      plugins: {
+        'check-file': checkFilePlugin,
+        react: reactPlugin,
+        'react-hooks': reactHooksPlugin,
+      },
+      settings: {
+        react: {
+          version: 'detect', // https://github.com/jsx-eslint/eslint-plugin-react/issues/3758
+        },
+      },
+      rules: {
+        // https://eslint.style/packages/jsx
+        // @stylistic/jsx does not provide a recommended rule set, add relevant rules manually
+        '@stylistic/jsx-child-element-spacing': 'error',
+        '@stylistic/jsx-closing-bracket-location': ['error', 'line-aligned'],
+        '@stylistic/jsx-closing-tag-location': 'error',
+        '@stylistic/jsx-curly-brace-presence': ['error', { propElementValues: 'always' }],
+        '@stylistic/jsx-curly-spacing': 'error',
+        '@stylistic/jsx-equals-spacing': 'error',
+        '@stylistic/jsx-first-prop-new-line': 'error',
+        '@stylistic/jsx-function-call-newline': 'error',
+        '@stylistic/jsx-indent-props': ['error', indent],
+        '@stylistic/jsx-props-no-multi-spaces': 'error',
+        '@stylistic/jsx-quotes': 'error',
+        '@stylistic/jsx-self-closing-comp': 'error', // replaces `react/self-closing-comp`, even though it's not deprecated yet
+        '@stylistic/jsx-tag-spacing': [
+          'error',
+          {
+            beforeSelfClosing: 'proportional-always',
+            beforeClosing: 'proportional-always',
+          },
+        ],
+        '@stylistic/jsx-wrap-multilines': 'error',
+        // add `eslint-react` recommended set + a few additional rules
+        // https://github.com/jsx-eslint/eslint-plugin-react#list-of-supported-rules
+        // watch out: `prop-types` and `display-name` are pretty buggy - see github issues:
+        // https://github.com/search?q=repo%3Ajsx-eslint%2Feslint-plugin-react+prop-types&type=issues
+        // https://github.com/search?q=repo%3Ajsx-eslint%2Feslint-plugin-react+display-name&type=issues
+        ...reactPlugin.configs.recommended.rules,
+        'react/jsx-no-bind': ['error', { allowArrowFunctions: true }],
+        'react/jsx-no-useless-fragment': ['error', { allowExpressions: true }],
+        // https://github.com/facebook/react/tree/main/packages/eslint-plugin-react-hooks
+        'react-hooks/rules-of-hooks': 'error',
+        'react-hooks/exhaustive-deps': 'error',
+      },
+    },
+  ];
+
+  if (a11y) {
+    // https://github.com/jsx-eslint/eslint-plugin-jsx-a11y
+    const jsxA11yPlugin = require('eslint-plugin-jsx-a11y');
+    config.push({
+      name: 'react/a11y',
+      files: ['**/*.?(m|c)[jt]sx'],
+      plugins: {
+        'jsx-a11y': jsxA11yPlugin,
+      },
+      settings: {
+        'jsx-a11y': {
+          // components of our component library are checked the same way as native elements they render
+          components: a11yComponents,
+        },
+      },
+      rules: {
+        // jsx-a11y sets do not include any formatting rules, so `@stylistic/jsx-*` rules stay in place
+        ...jsxA11yPlugin.flatConfigs[a11y].rules,
+        // link components of routers use `to` instead of `href`, e.g. `<Link to="/about">`
+        'jsx-a11y/anchor-is-valid': ['error', { specialLink: ['to'] }],
+      },
+    });
+  }
+
+  return prettier ? withoutFormattingRules(config) : config;
+}
+
+/**
+ * File naming conventions, i.a. PascalCase for react components.
+ *
+ * @param {Object} options
+ * @param {Record<string, string | false>} [options.files] - Map of file globs to naming conventions, merged with the defaults. Set a default glob to `false` to disable it.
+ * @param {Record<string, string | false>} [options.folders] - Map of folder globs to naming conventions.
+ * @param {boolean} [options.defaultExport=true] - Whether the default export of a PascalCase jsx/tsx file should have the same name as the file.
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function fileNamingConfig(options: FileNamingOptions = {}): Linter.Config[] {
+  const { defaultExport = true } = options;
+  // `false` disables a default convention
+  const enabled = (conventions: Record<string, string | false>) =>
+    Object.fromEntries(Object.entries(conventions).filter(([, convention]) => convention));
+  const files = enabled({
+    ...defaultFileNamingConventions,
+    ...moduleFileNamingConventions,
+    ...options.files,
+  });
+  const folders = enabled({ ...options.folders });
+
+  const config: Linter.Config[] = [
+    {
+      name: 'file-naming-conventions',
+      plugins: {
+        'check-file': checkFilePlugin,
+      },
+      rules: {
+        'check-file/filename-naming-convention': ['error', files, { ignoreMiddleExtensions: true }],
+        ...(Object.keys(folders).length && {
+          'check-file/folder-naming-convention': ['error', folders],
+        }),
+      },
+    },
+  ];
+
+  if (defaultExport) {
+    config.push({
+      name: 'file-naming-conventions/default-export',
+      files: ['**/*.?(m|c)[jt]sx'],
+      plugins: {
+        ovos: plugin,
+      },
+      rules: {
+        'ovos/default-export-matches-filename': 'error',
+      },
+    });
+  }
+
+  return config;
+}
+
+/**
+ * Settings and rules for graphql schema and operations, in `.graphql`/`.gql` files and in `gql`/`graphql` tagged templates of js/ts files.
+ *
+ * @param {Object} options
+ * @param {string[]} options.schema - Globs of local schema files (SDL), used to validate operations.
+ * @param {string[]} [options.documents] - Globs of files with operations and fragments. (default: all `.graphql`/`.gql` and js/ts files, except the schema files)
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function graphqlConfig(options: GraphqlOptions): Linter.Config[] {
+  const { schema, documents = ['**/*.{graphql,gql}', '**/*.?(m|c)[jt]s?(x)'] } = options;
+  // https://the-guild.dev/graphql/eslint/docs
+  const graphqlPlugin = require('@graphql-eslint/eslint-plugin');
+  const schemaRules = graphqlPlugin.configs['flat/schema-recommended'].rules;
+  const languageOptions: Linter.LanguageOptions = {
+    parser: graphqlPlugin.parser,
+    parserOptions: {
+      // passed explicitly, so a `graphql.config.*` file (possibly pointing to a remote schema) is never loaded
+      // projects are keyed by directory, as all workspaces share a single graphql config (see `customize()`)
+      graphQLConfig: {
+        projects: {
+          '.': { schema, documents, exclude: [...schema, '**/node_modules/**'] },
+        },
+      },
+    },
+  };
+
+  return [
+    {
+      // extracts `gql` and `graphql` tagged templates to virtual `.graphql` files, e.g. `queries.ts/0_document.graphql`
+      name: 'graphql/tagged-templates',
+      files: ['**/*.?(m|c)[jt]s?(x)'],
+      processor: graphqlPlugin.processors.graphql,
+    },
+    {
+      name: 'graphql/schema',
+      files: schema,
+      languageOptions,
+      plugins: {
+        '@graphql-eslint': graphqlPlugin,
+      },
+      rules: {
+        ...schemaRules,
+        // aside from camelCase, fields can be snake_cased e.g. when exposing columns of objection models as they are
+        // (see `@typescript-eslint/naming-convention` allowing snake_cased resolvers)
+        '@graphql-eslint/naming-convention': [
+          'error',
+          {
+            ...schemaRules['@graphql-eslint/naming-convention'][1],
+            FieldDefinition: {
+              requiredPattern: /^[a-z][a-zA-Z0-9]*$|^[a-z][a-z0-9]*(_[a-z0-9]+)+$/,
+            },
+          },
+        ],
+        // the recommended set is too strict for us. Disable rules which we do not want.
+        '@graphql-eslint/require-description': 'off',
+        '@graphql-eslint/strict-id-in-types': 'off',
+      },
+    },
+    {
+      name: 'graphql/operations',
+      files: ['**/*.{graphql,gql}'],
+      ignores: schema,
+      languageOptions,
+      plugins: {
+        '@graphql-eslint': graphqlPlugin,
+      },
+      // i.a. `no-deprecated` reporting usage of fields and enum values marked with `@deprecated` in the schema
+      rules: graphqlPlugin.configs['flat/operations-recommended'].rules,
+    },
+  ];
+}
+
+/**
+ * Settings and rules for node.js code: supported node APIs and syntax, deprecated core modules, module systems.
+ *
+ * @param {Object} options
+ * @param {'commonjs' | 'module'} [options.moduleType='commonjs'] - Module system of `.js` and `.ts` files, i.e. `type` of package.json.
+ * @param {string} [options.version] - Supported node versions, i.e. `engines.node` of package.json.
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function nodeConfig(options: NodeConfigOptions = {}): Linter.Config[] {
+  const { moduleType = 'commonjs', version } = options;
+  // https://github.com/eslint-community/eslint-plugin-n
+  const nodePlugin = require('eslint-plugin-n');
+
+  return [
+    {
+      name: 'node',
+      files: ['**/*.?(m|c)[jt]s?(x)'],
+      plugins: {
+        n: nodePlugin,
+      },
+      // node APIs and syntax newer than `engines.node` are reported, e.g. `fs.glob()` with `"node": ">=18"`
+      ...(version && { settings: { n: { version } } }),
+      rules: {
+        ...nodePlugin.configs['flat/recommended-script'].rules,
+        // the recommended set is too strict for us. Disable rules which we do not want.
+        // imports are resolved by `import` plugin already, incl. aliases and ts paths
+        'n/no-missing-import': 'off',
+        'n/no-missing-require': 'off',
+        // tests and scripts import dev dependencies, and apps are not published at all
+        'n/no-unpublished-import': 'off',
+        'n/no-unpublished-require': 'off',
+        // ts files are transpiled, so only js files are checked for unsupported syntax (see below)
+        'n/no-unsupported-features/es-syntax': 'off',
+        // additional rules
+        // built-in modules are imported with `node:` prefix, e.g. `node:fs`, and stay in the `builtin` group of `import/order`
+        'n/prefer-node-protocol': 'error',
+      },
+    },
+    {
+      name: 'node/js',
+      files: ['**/*.?(m|c)js?(x)'],
+      rules: {
+        'n/no-unsupported-features/es-syntax': 'error',
+      },
+    },
+    {
+      // `import` statements are not allowed in commonjs modules
+      name: 'node/commonjs',
+      files: moduleType === 'commonjs' ? ['**/*.?(c)js'] : ['**/*.cjs'],
+      languageOptions: {
+        sourceType: 'commonjs',
+      },
+    },
+    {
+      // commonjs globals are not available in es modules, e.g. `require()` or `__dirname` (use `import.meta.dirname` instead)
+      name: 'node/esm',
+      files: moduleType === 'module' ? ['**/*.?(m)[jt]s'] : ['**/*.m[jt]s'],
+      languageOptions: {
+        sourceType: 'module',
+        globals: {
+          __dirname: 'off',
+          __filename: 'off',
+          exports: 'off',
+          module: 'off',
+          require: 'off',
+        },
+      },
+    },
+    {
+      // `no-undef` reports commonjs globals in js files, but it is disabled for ts files by 'typescript-eslint:eslint-recommended'
+      name: 'node/esm-ts',
+      files: moduleType === 'module' ? ['**/*.?(m)ts'] : ['**/*.mts'],
+      rules: {
+        '@typescript-eslint/no-require-imports': 'error',
+      },
+    },
+  ];
+}
+
+/**
+ * Our rules for custom helpers running tests conditionally (see `testBlockFunctions` option).
+ */
+function testBlockFunctionsRules(functions: string[]): Linter.RulesRecord {
+  if (!functions.length) {
+    return {};
+  }
+  return {
+    'ovos/no-focused-conditional-tests': ['error', { functions }],
+    'ovos/valid-conditional-test-condition': ['error', { functions }],
+    'ovos/valid-conditional-test-title': ['error', { functions }],
+  };
+}
+
+/**
+ * Resolve options shared by all test runners, with defaults.
+ */
+function resolveTestsOptions(options: TestsConfigOptions) {
+  const {
+    testsDir = '{spec,test,tests}',
+    testBlockFunctions = defaultTestBlockFunctions,
+    testGlobals = defaultTestGlobals,
+  } = options;
+  const testFiles = options.testFiles ?? [
+    `${testsDir}/**/*.?(c|m)[jt]s?(x)`,
+    '**/__tests__/**/*.?(c|m)[jt]s?(x)',
+    '**/*.{spec,test}.?(c|m)[jt]s?(x)',
+  ];
+  return { testsDir, testBlockFunctions, testFiles, testGlobals };
+}
+
+/**
+ * Settings and rules for jest test files.
+ *
+ * @param {Object} options
+ * @param {string} [options.testsDir={spec,test,tests}] - Directory where test files are located.
+ * @param {string[]} [options.testFiles] - Globs of test files, replacing the default ones (files in `testsDir` and `__tests__` folders, `*.spec.*` and `*.test.*` files).
+ * @param {Record<string, 'readonly' | 'writable'>} [options.testGlobals] - Globals provided by the test setup. (default: `DB`, `GQL`, `Setup` and `app`)
+ * @param {string[]} [options.testBlockFunctions] - Custom helpers running tests, e.g. conditionally. (default: `testif`, `itif`, `testskipif` and `itskipif`)
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function jestConfig(options: TestsConfigOptions = {}): Linter.Config[] {
+  const { testBlockFunctions, testFiles, testGlobals } = resolveTestsOptions(options);
+  const jestPlugin = require('eslint-plugin-jest');
+  return [
+    {
+      name: 'jest',
+      files: testFiles,
+      languageOptions: {
+        globals: {
+          ...jestPlugin.environments.globals.globals,
+          ...testGlobals,
+        },
+      },
+      plugins: {
+        jest: jestPlugin,
+        ovos: plugin,
+      },
+      rules: {
+        ...jestPlugin.configs.recommended.rules,
+        // the recommended set is too strict for us. Disable rules which we do not want.
+        // https://github.com/jest-community/eslint-plugin-jest#rules
         'jest/expect-expect': 'off',
         'jest/no-alias-methods': 'off',
         'jest/no-conditional-expect': 'off',
         'jest/no-disabled-tests': 'off',
         'jest/no-standalone-expect': [
           'error',
-          {
-            additionalTestBlockFunctions: [
-              // expects in before/after hooks are perfectly fine
-              'beforeAll',
-              'beforeEach',
-              'afterEach',
-              'afterAll',
-              // custom helpers to run tests conditionally
-              'testif',
-              'itif',
-              'testskipif',
-              'itskipif',
-            ],
-          },
+          { additionalTestBlockFunctions: [...hooks, ...testBlockFunctions] },
         ],
         // allow titles to be parameterized - using variables or ternaries
         'jest/valid-title': [
@@ -543,24 +1289,38 @@ function customize(options: CustomizeOptions = {}) {
         ],
         // additional rules
         'no-console': 'error',
+        ...testBlockFunctionsRules(testBlockFunctions),
       },
-    });
-  }
+    },
+  ];
+}
 
-  if (vitest) {
-    const vitestPlugin = require('@vitest/eslint-plugin');
-    config.push({
+/**
+ * Settings and rules for vitest test files.
+ *
+ * @param {Object} options
+ * @param {string} [options.testsDir={spec,test,tests}] - Directory where test files are located.
+ * @param {string[]} [options.testFiles] - Globs of test files, replacing the default ones (files in `testsDir` and `__tests__` folders, `*.spec.*` and `*.test.*` files).
+ * @param {Record<string, 'readonly' | 'writable'>} [options.testGlobals] - Globals provided by the test setup. (default: `DB`, `GQL`, `Setup` and `app`)
+ * @param {string[]} [options.testBlockFunctions] - Custom helpers running tests, e.g. conditionally. (default: `testif`, `itif`, `testskipif` and `itskipif`)
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function vitestConfig(options: TestsConfigOptions = {}): Linter.Config[] {
+  const { testBlockFunctions, testFiles, testGlobals } = resolveTestsOptions(options);
+  const vitestPlugin = require('@vitest/eslint-plugin');
+  return [
+    {
       name: 'vitest',
-      files: [
-        `${testsDir}/**/*.?(c|m)[jt]s?(x)`,
-        '**/__tests__/**/*.?(c|m)[jt]s?(x)',
-        '**/*.{spec,test}.?(c|m)[jt]s?(x)',
-      ],
+      files: testFiles,
       languageOptions: {
-        globals: vitestPlugin.environments.env.globals,
+        globals: {
+          ...vitestPlugin.environments.env.globals,
+          ...testGlobals,
+        },
       },
       plugins: {
         vitest: vitestPlugin,
+        ovos: plugin,
       },
       rules: {
         // https://github.com/veritem/eslint-plugin-vitest#rules
@@ -570,65 +1330,108 @@ function customize(options: CustomizeOptions = {}) {
         'vitest/prefer-to-be': 'off', // this override can be removed after eslint-plugin-vitest is updated to 0.3.19+ https://github.com/veritem/eslint-plugin-vitest/pull/332
         // additional rules
         'vitest/no-focused-tests': 'error',
+        'vitest/no-standalone-expect': [
+          'error',
+          { additionalTestBlockFunctions: [...hooks, ...testBlockFunctions] },
+        ],
         'no-console': 'error',
+        ...testBlockFunctionsRules(testBlockFunctions),
       },
-    });
-  }
+    },
+  ];
+}
 
-  // cypress is based on mocha, so also enable mocha-specific rules when cypress is enabled
-  if (mocha || cypress) {
-    const mochaPlugin = require('eslint-plugin-mocha');
-    config.push(
-      {
-        ...mochaPlugin.configs.flat.recommended,
-        name: 'mocha',
-        files: [
-          `${testsDir}/**/*.?(c|m)[jt]s`,
-          '**/__tests__/**/*.?(c|m)[jt]s',
-          '**/*.{spec,test}.?(c|m)[jt]s',
-        ],
-        rules: {
-          // https://github.com/lo1tuma/eslint-plugin-mocha#rules
-          ...mochaPlugin.configs.flat.recommended.rules,
-          'mocha/no-exclusive-tests': 'error', // the rule is set to 'warn' in the recommended config
-          'mocha/no-skipped-tests': 'off', // the rule is set to 'warn' in the recommended config, but we don't need it
-          // not compatible with https://www.npmjs.com/package/mocha-each and https://mochajs.org/#dynamically-generating-tests
-          'mocha/no-setup-in-describe': 'off',
-          // mocha prefers function expressions https://mochajs.org/#arrow-functions
-          // https://github.com/lo1tuma/eslint-plugin-mocha/blob/HEAD/docs/rules/prefer-arrow-callback.md
-          'prefer-arrow-callback': 'off',
-          'mocha/prefer-arrow-callback': 'error',
+/**
+ * Settings and rules for mocha test files.
+ *
+ * @param {Object} options
+ * @param {string} [options.testsDir={spec,test,tests}] - Directory where test files are located.
+ * @param {string[]} [options.testFiles] - Globs of test files, replacing the default ones (files in `testsDir` and `__tests__` folders, `*.spec.*` and `*.test.*` files).
+ * @param {Record<string, 'readonly' | 'writable'>} [options.testGlobals] - Globals provided by the test setup. (default: `DB`, `GQL`, `Setup` and `app`)
+ * @param {string[]} [options.testBlockFunctions] - Custom helpers running tests, e.g. conditionally. (default: `testif`, `itif`, `testskipif` and `itskipif`)
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function mochaConfig(options: TestsConfigOptions = {}): Linter.Config[] {
+  const { testsDir, testBlockFunctions, testFiles, testGlobals } = resolveTestsOptions(options);
+  // patterns to extra (helper) files in testsDir, which are not test suites
+  const ignoreInTestsDir = [`${testsDir}/**/_*`, `${testsDir}/**/*.skip.*`];
+  const mochaPlugin = require('eslint-plugin-mocha');
+  return [
+    {
+      ...mochaPlugin.configs.flat.recommended,
+      name: 'mocha',
+      files: testFiles,
+      plugins: {
+        ...mochaPlugin.configs.flat.recommended.plugins,
+        ovos: plugin,
+      },
+      languageOptions: {
+        globals: {
+          ...mochaPlugin.configs.flat.recommended.languageOptions.globals,
+          ...testGlobals,
         },
       },
-      {
-        // folder with snapshots generated by https://www.npmjs.com/package/snap-shot-it
-        ignores: ['__snapshots__'],
+      settings: {
+        // helpers are called with a condition first, e.g. `itif(condition)('title', () => {})`
+        'mocha/additionalCustomNames': testBlockFunctions.map((name) => ({
+          name: `${name}()`,
+          type: 'testCase',
+          interfaces: ['BDD', 'TDD'],
+        })),
       },
-      {
-        name: 'mocha/ignore',
-        files: ignoreInTestsDir,
-        rules: {
-          'mocha/no-exports': 'off',
-        },
-      }
-    );
-  }
+      rules: {
+        // https://github.com/lo1tuma/eslint-plugin-mocha#rules
+        ...mochaPlugin.configs.flat.recommended.rules,
+        'mocha/no-exclusive-tests': 'error', // the rule is set to 'warn' in the recommended config
+        'mocha/no-skipped-tests': 'off', // the rule is set to 'warn' in the recommended config, but we don't need it
+        // not compatible with https://www.npmjs.com/package/mocha-each and https://mochajs.org/#dynamically-generating-tests
+        'mocha/no-setup-in-describe': 'off',
+        // mocha prefers function expressions https://mochajs.org/#arrow-functions
+        // https://github.com/lo1tuma/eslint-plugin-mocha/blob/HEAD/docs/rules/prefer-arrow-callback.md
+        'prefer-arrow-callback': 'off',
+        'mocha/prefer-arrow-callback': 'error',
+        // additional rules
+        ...testBlockFunctionsRules(testBlockFunctions),
+      },
+    },
+    {
+      // folder with snapshots generated by https://www.npmjs.com/package/snap-shot-it
+      ignores: ['__snapshots__'],
+    },
+    {
+      name: 'mocha/ignore',
+      files: ignoreInTestsDir,
+      rules: {
+        'mocha/no-exports': 'off',
+      },
+    },
+  ];
+}
 
-  if (cypress) {
-    const cypressPlugin = require('eslint-plugin-cypress/flat');
-    const chaiFriendlyPlugin = require('eslint-plugin-chai-friendly');
-    config.push({
+/**
+ * Settings and rules for cypress test files. Cypress is based on mocha, so mocha-specific rules are included too.
+ *
+ * @param {Object} options
+ * @param {string} [options.testsDir={spec,test,tests}] - Directory where test files are located.
+ * @param {string[]} [options.testFiles] - Globs of test files, replacing the default ones (files in `testsDir` and `__tests__` folders, `*.spec.*` and `*.test.*` files).
+ * @param {Record<string, 'readonly' | 'writable'>} [options.testGlobals] - Globals provided by the test setup. (default: `DB`, `GQL`, `Setup` and `app`)
+ * @param {string[]} [options.testBlockFunctions] - Custom helpers running tests, e.g. conditionally. (default: `testif`, `itif`, `testskipif` and `itskipif`)
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function cypressConfig(options: TestsConfigOptions = {}): Linter.Config[] {
+  const { testFiles } = resolveTestsOptions(options);
+  const cypressPlugin = require('eslint-plugin-cypress/flat');
+  const chaiFriendlyPlugin = require('eslint-plugin-chai-friendly');
+  return [
+    ...mochaConfig(options),
+    {
       ...cypressPlugin.configs.recommended,
       name: 'cypress',
       plugins: {
         ...cypressPlugin.configs.recommended.plugins,
         'chai-friendly': chaiFriendlyPlugin,
       },
-      files: [
-        `${testsDir}/**/*.?(c|m)[jt]s`,
-        '**/__tests__/**/*.?(c|m)[jt]s',
-        '**/*.{spec,test}.?(c|m)[jt]s',
-      ],
+      files: testFiles,
       rules: {
         ...cypressPlugin.configs.recommended.rules,
         // Even though cypress is based on mocha, and uses `this` in regular functions to access the test context,
@@ -642,10 +1445,510 @@ function customize(options: CustomizeOptions = {}) {
         '@typescript-eslint/no-unused-expressions': 'off',
         'chai-friendly/no-unused-expressions': shared['no-unused-expressions'],
       },
-    });
+    },
+  ];
+}
+
+/**
+ * Settings and rules for playwright end-to-end test files.
+ *
+ * @param {Object} options
+ * @param {string[]} [options.files] - Globs of end-to-end test files. (default: js/ts files in `e2e` directory)
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function playwrightConfig(options: PlaywrightConfigOptions = {}): Linter.Config[] {
+  const { files = defaultPlaywrightFiles } = options;
+  // https://github.com/playwright-community/eslint-plugin-playwright
+  const playwrightPlugin = require('eslint-plugin-playwright');
+  return [
+    {
+      ...playwrightPlugin.configs['flat/recommended'],
+      name: 'playwright',
+      files,
+    },
+  ];
+}
+
+/**
+ * Settings and rules for storybook stories and config files.
+ *
+ * @param {Object} options
+ * @param {string[]} [options.files] - Globs of story files. (default: `*.stories.*` js/ts files)
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function storybookConfig(options: StorybookConfigOptions = {}): Linter.Config[] {
+  const { files = defaultStorybookFiles } = options;
+  // https://github.com/storybookjs/eslint-plugin-storybook
+  const storybookPlugin = require('eslint-plugin-storybook');
+  const [, storiesConfig, mainConfig] = storybookPlugin.configs['flat/recommended'];
+  return [
+    {
+      name: 'storybook',
+      files,
+      languageOptions: {
+        // stories are rendered in the browser
+        globals: globals.browser,
+      },
+      plugins: {
+        storybook: storybookPlugin,
+      },
+      rules: {
+        // incl. `react-hooks/rules-of-hooks` turned off, as `render` functions of stories may use hooks
+        ...storiesConfig.rules,
+      },
+    },
+    {
+      name: 'storybook/config',
+      files: ['.storybook/*.?(m|c)[jt]s?(x)'],
+      languageOptions: {
+        // e.g. decorators in `.storybook/preview.tsx` are rendered in the browser
+        globals: globals.browser,
+      },
+      plugins: {
+        storybook: storybookPlugin,
+      },
+      rules: mainConfig.rules,
+    },
+  ];
+}
+
+/**
+ * Settings and rules for js/ts code blocks in markdown files, e.g. usage examples in README.md.
+ * Code blocks are snippets rather than modules, so only a relaxed subset of rules is applied to them.
+ *
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function markdownConfig(): Linter.Config[] {
+  // https://github.com/eslint/markdown
+  const markdownPlugin = require('@eslint/markdown').default;
+  const [, , codeBlocksConfig] = markdownPlugin.configs.processor;
+  return [
+    {
+      name: 'markdown',
+      files: ['**/*.md'],
+      plugins: {
+        markdown: markdownPlugin,
+      },
+      processor: 'markdown/markdown',
+    },
+    {
+      name: 'markdown/code-blocks',
+      // code blocks are linted as virtual files named after their position, e.g. `README.md/0.ts`
+      files: markdownCodeBlockFiles,
+      languageOptions: codeBlocksConfig.languageOptions,
+      rules: {
+        // incl. `no-undef`, `no-unused-expressions` and `no-unused-vars`, as snippets often use undeclared or unused variables
+        ...codeBlocksConfig.rules,
+        '@stylistic/eol-last': 'off',
+        '@typescript-eslint/no-unused-expressions': 'off',
+        '@typescript-eslint/no-unused-vars': 'off',
+        // snippets import packages, which are not dependencies of the project (e.g. the package itself)
+        'n/no-extraneous-import': 'off',
+        'n/no-extraneous-require': 'off',
+        'n/no-missing-import': 'off',
+        'n/no-missing-require': 'off',
+        // virtual files have neither a real name nor a real location
+        'check-file/filename-naming-convention': 'off',
+        'check-file/folder-naming-convention': 'off',
+        'ovos/default-export-matches-filename': 'off',
+        'ovos/prefer-alias': 'off',
+        // logging results is common in usage examples
+        'no-console': 'off',
+      },
+    },
+  ];
+}
+
+/**
+ * Settings and rules for json files: syntax errors, duplicate keys, and sorted dependencies in package.json.
+ * Config files of typescript and vscode are parsed as JSONC (json with comments and trailing commas).
+ *
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function jsonConfig(): Linter.Config[] {
+  // https://github.com/eslint/json
+  const jsonPlugin = require('@eslint/json').default;
+  return [
+    {
+      name: 'json',
+      files: ['**/*.json'],
+      // generated by npm
+      ignores: ['**/package-lock.json'],
+      plugins: {
+        json: jsonPlugin,
+      },
+      language: 'json/json',
+      rules: jsonPlugin.configs.recommended.rules,
+    },
+    {
+      name: 'json/jsonc',
+      files: [
+        '**/*.jsonc',
+        '**/tsconfig*.json',
+        '**/jsconfig*.json',
+        '**/.vscode/*.json',
+        '**/.devcontainer/*.json',
+      ],
+      language: 'json/jsonc',
+      languageOptions: {
+        allowTrailingCommas: true,
+      },
+    },
+    {
+      name: 'json/package-json',
+      files: ['**/package.json'],
+      plugins: {
+        ovos: plugin,
+      },
+      rules: {
+        // same order as of imports, i.a. scoped packages first
+        'ovos/sort-package-json': ['error', { alphabet: sortingAlphabet }],
+      },
+    },
+  ];
+}
+
+/**
+ * Customize the eslint configuration.
+ *
+ * @param {Object} options
+ * @param {false | 'recommended' | 'strict'} [options.a11y=false] - Whether to enable accessibility rules from 'recommended' or 'strict' sets of eslint-plugin-jsx-a11y, when `react` is enabled.
+ * @param {Record<string, string>} [options.a11yComponents] - Map of custom components to native elements they render, checked by accessibility rules the same way as the native elements. Defaults to `{ Button: 'button', Link: 'a' }`.
+ * @param {Record<string, string>} [options.aliases] - Map of import aliases to paths relative to the project root, in the same format as tsconfig `paths`, e.g. `{ '@/*': 'src/*' }`. Used for `import/order` path groups and `ovos/prefer-alias` rule. Defaults to aliases read from `compilerOptions.paths` of tsconfig.json and `imports` of package.json.
+ * @param {'ban' | 'ban-log' | 'allow'} [options.console] - Whether to ban or allow console usage. Defaults to 'ban-log' (which allows 'console.error()', 'console.warn()' and 'console.info()') when 'react': true, 'allow' otherwise.
+ * @param {boolean} [options.detect=false] - Whether to infer `console`, `testsDir`, `cypress`, `jest`, `mocha`, `playwright`, `react`, `storybook` and `vitest` options from the nearest package.json and existing test directories. Explicitly set options always win.
+ * @param {string[]} [options.disableTypeChecked] - List ts files which should be linted, but are not covered by tsconfig.json to avoid 'Parsing error (...) TSConfig does not include this file' https://typescript-eslint.io/linting/troubleshooting/#i-get-errors-telling-me-eslint-was-configured-to-run--however-that-tsconfig-does-not--none-of-those-tsconfigs-include-this-file
+ * @param {boolean | FileNamingOptions} [options.fileNaming] - File and folder naming conventions (`files`, `folders` and `defaultExport`), merged with the defaults e.g. camelCase for ts modules, or `true` for the defaults. Only PascalCase for react components, and camelCase for hooks and less files are checked without the option, `false` disables them too.
+ * @param {GraphqlOptions} [options.graphql] - Lint graphql schema and operations in `.graphql`/`.gql` files and in `gql`/`graphql` tagged templates of js/ts files: `schema` globs of local schema files used to validate operations, and `documents` globs of files with operations and fragments (defaults to all `.graphql`/`.gql` and js/ts files).
+ * @param {Record<string, Environment | Environment[]>} [options.environments] - Map of globs to runtime environments ('node', 'browser', 'worker', 'serviceworker' or 'shared' for isomorphic code), which provide globals for matching files. Later entries take precedence. Defaults to `globals.node` for all files.
+ * @param {number | 'tab'} [options.indent=2] - Number of spaces to use for indentation, or 'tab' to use tabs.
+ * @param {string} [options.testsDir={spec,test,tests}] - Directory where test files are located. Example: `src` for single directory, `{spec,tests}` to include multiple directories. In addition, files in `__tests__` folders and files with `*.spec.*`/`*.test.*` filenames are picked up as test files, even outside of `testsDir`.
+ * @param {string[]} [options.testFiles] - Globs of test files, replacing the default ones (files in `testsDir` and `__tests__` folders, `*.spec.*` and `*.test.*` files).
+ * @param {Record<string, 'readonly' | 'writable'>} [options.testGlobals] - Globals provided by the test setup, for all test runners. Defaults to `DB`, `GQL`, `Setup` and `app`.
+ * @param {string[]} [options.testBlockFunctions] - Custom helpers running tests, e.g. conditionally, which are treated as test blocks by all test runners. Defaults to `testif`, `itif`, `testskipif` and `itskipif`.
+ * @param {{ files?: string[], pragma?: boolean | string }} [options.strict] - Enable stricter rules (e.g. 'no-explicit-any') for new code: for ts files matching `files` globs, and for ts files with a `// @ovos-strict` header comment when `pragma: true` (or with a custom pragma, when a string is given).
+ * @param {false | 'recommended' | 'strict'} [options.typeChecked=false] - Whether to enable type-aware rules from 'recommended-type-checked' or 'strict-type-checked' sets of typescript-eslint. Type-aware rules are turned off automatically for files listed in `disableTypeChecked`.
+ * @param {'editor' | 'pre-commit' | 'ci'} [options.profile='ci'] - Where the config is used, e.g. `process.env.CI ? 'ci' : 'editor'`. The fast profiles defer the expensive parts of linting to CI: 'pre-commit' turns off type-aware rules and type information for ts files, 'editor' also the typescript import resolver (imports are resolved by the built-in node resolver). 'ci' keeps the full set.
+ * @param {'warn' | 'error' | Partial<Record<RuleCategory, RuleSeverity>>} [options.severity='error'] - Severity of all rules, e.g. 'warn' when migrating an older codebase, or severities per category of rules: 'stylistic', 'imports', 'naming', 'tests', 'bugs' and 'suggestions' (i.a. `no-console` as configured by `console` option). Rules turned off stay off. Example: `{ stylistic: 'warn', imports: 'warn', naming: 'off' }`.
+ * @param {boolean} [options.cypress=false] - Whether to enable Cypress-specific rules.
+ * @param {boolean} [options.jest=false] - Whether to enable Jest-specific rules.
+ * @param {boolean} [options.json=false] - Whether to lint json files: syntax errors and duplicate keys, comments and trailing commas allowed in tsconfig and vscode settings (JSONC), and dependencies of package.json sorted in the same order as imports.
+ * @param {boolean} [options.markdown=false] - Whether to lint js/ts code blocks in markdown files, with rules for unused variables, undefined globals, missing imports and file naming turned off.
+ * @param {boolean} [options.mocha=false] - Whether to enable Mocha-specific rules.
+ * @param {boolean} [options.node=false] - Whether to enable Node.js-specific rules, driven by `engines.node` and `type` of package.json: node APIs unsupported by the engines range, deprecated core modules, `node:` protocol for built-in modules, and commonjs globals (e.g. `require()`) in es modules.
+ * @param {boolean | { files?: string[] }} [options.playwright=false] - Whether to enable Playwright-specific rules for end-to-end tests in `files` (default: js/ts files in `e2e` directory). These files are excluded from test files of other test runners.
+ * @param {boolean} [options.prettier=false] - Whether formatting is handled by prettier. Disables formatting rules, which are conflicting with prettier.
+ * @param {boolean} [options.react=false] - Whether to enable React-specific rules.
+ * @param {boolean | { files?: string[] }} [options.storybook=false] - Whether to enable Storybook-specific rules for stories in `files` (default: `*.stories.*` js/ts files) and for config files in `.storybook` directory. Stories may be camelCased, and type-aware rules are turned off for `.storybook` config files.
+ * @param {boolean} [options.vitest=false] - Whether to enable Vitest-specific rules.
+ * @param {string} [options.tsconfigRootDir] - Root directory of the project, usually `import.meta.dirname` of eslint.config.js. Passed to typescript-eslint as `tsconfigRootDir` for files outside of workspaces, and used to check that `disableTypeChecked` and `graphql.schema` globs match any files, which is skipped otherwise.
+ * @param {Record<string, WorkspaceOptions>} [options.workspaces] - Map of workspace directories of a monorepo (or globs of directories, e.g. `packages/*`) to their own options, merged over the top-level options. Config blocks of each workspace are scoped to its directory, with its own tsconfig.json for type-aware rules and import resolution. Top-level options apply to files outside of workspaces.
+ * @returns {import('eslint').Linter.Config[]}
+ */
+function customize(options: CustomizeOptions = {}) {
+  validateOptions(options);
+  const { tsconfigRootDir, workspaces, ...rootOptions } = options;
+  const rootConfig = [
+    ...workspaceConfig(rootOptions),
+    ...(tsconfigRootDir ? [tsconfigRootConfig(tsconfigRootDir, rootOptions.profile)] : []),
+  ];
+  if (!workspaces) {
+    return rootConfig;
   }
 
-  return config;
+  const dirs = findWorkspaceDirs(Object.keys(workspaces));
+  // top-level options apply to files outside of workspaces
+  const config = scopeConfig(rootConfig, undefined, [...dirs.keys()]);
+  for (const [dir, globs] of dirs) {
+    // later entries take precedence, e.g. `{ 'packages/*': {...}, 'packages/legacy': {...} }`
+    const workspaceOptions: WorkspaceOptions = Object.assign(
+      {},
+      rootOptions,
+      ...globs.map((glob) => workspaces[glob])
+    );
+    // nested workspaces are configured on their own
+    const nestedDirs = [...dirs.keys()].filter((other) => other.startsWith(`${dir}/`));
+    config.push(
+      ...scopeConfig(
+        [
+          ...workspaceConfig(workspaceOptions, dir),
+          tsconfigRootConfig(dir, workspaceOptions.profile),
+        ],
+        dir,
+        nestedDirs
+      )
+    );
+  }
+
+  return shareGraphqlConfig(config);
+}
+
+/**
+ * Build the config for a single project (or a workspace of a monorepo), with globs relative to its directory.
+ */
+function workspaceConfig(options: WorkspaceOptions, dir = '.') {
+  const resolvedOptions = options.detect
+    ? withDetectedOptions(options, path.resolve(dir))
+    : options;
+  const {
+    cypress = false,
+    jest = false,
+    mocha = false,
+    playwright = false,
+    react = false,
+    storybook = false,
+    vitest = false,
+  } = resolvedOptions;
+  // `true` enables the default files
+  const playwrightOptions = playwright === true ? {} : playwright;
+  const storybookOptions = storybook === true ? {} : storybook;
+  const consoleUsage = resolvedOptions.console ?? (react ? 'ban-log' : 'allow');
+  // aliases are relative to the workspace directory
+  const aliases = Object.fromEntries(
+    Object.entries(resolvedOptions.aliases ?? readAliases(path.resolve(dir))).map(
+      ([alias, target]) => [alias, path.join(dir, target)]
+    )
+  );
+  const config: Linter.Config[] = [
+    ...baseConfig({ ...resolvedOptions, aliases, console: consoleUsage }),
+    ...typescriptConfig({
+      ...resolvedOptions,
+      // storybook config files are usually not included in tsconfig.json, code blocks of markdown files are not files at all
+      disableTypeChecked: [
+        ...(storybook ? ['.storybook/*.?(m|c)ts?(x)'] : []),
+        ...(resolvedOptions.markdown ? markdownCodeBlockFiles : []),
+        ...(resolvedOptions.disableTypeChecked ?? []),
+      ],
+    }),
+  ];
+
+  if (react) {
+    config.push(...reactConfig(resolvedOptions));
+  }
+
+  if (resolvedOptions.fileNaming !== false) {
+    const { fileNaming: fileNamingOption } = resolvedOptions;
+    // without the option, only the conventions of react components, hooks and less files are checked
+    const fileNaming: FileNamingOptions =
+      typeof fileNamingOption === 'object'
+        ? fileNamingOption
+        : fileNamingOption
+          ? {}
+          : {
+              files: Object.fromEntries(
+                Object.keys(moduleFileNamingConventions).map((glob) => [glob, false])
+              ),
+              defaultExport: false,
+            };
+    // stories are named after the component (e.g. `Button.stories.tsx`) or after the topic (e.g. `colors.stories.tsx`)
+    const storiesNaming =
+      storybookOptions &&
+      Object.fromEntries(
+        (storybookOptions.files ?? defaultStorybookFiles).map((glob) => [
+          glob,
+          moduleNamingConvention,
+        ])
+      );
+    config.push(
+      ...fileNamingConfig({ ...fileNaming, files: { ...storiesNaming, ...fileNaming.files } })
+    );
+  }
+
+  if (resolvedOptions.node) {
+    // module system and supported node versions of the workspace, or of the project when the workspace has no package.json
+    const { moduleType, packageJson } = detectProject(path.resolve(dir));
+    config.push(...nodeConfig({ moduleType, version: packageJson.engines?.node }));
+  }
+
+  if (resolvedOptions.graphql) {
+    config.push(...graphqlConfig(resolvedOptions.graphql));
+  }
+
+  // playwright tests are not run by other test runners, even when matching their `testFiles` (e.g. `e2e/login.spec.ts`)
+  const playwrightFiles = playwrightOptions
+    ? (playwrightOptions.files ?? defaultPlaywrightFiles)
+    : [];
+  const withoutPlaywrightFiles = (blocks: Linter.Config[]) =>
+    blocks.map((block) =>
+      block.files && playwrightFiles.length
+        ? { ...block, ignores: [...(block.ignores ?? []), ...playwrightFiles] }
+        : block
+    );
+
+  if (jest) {
+    config.push(...withoutPlaywrightFiles(jestConfig(resolvedOptions)));
+  }
+
+  if (vitest) {
+    config.push(...withoutPlaywrightFiles(vitestConfig(resolvedOptions)));
+  }
+
+  // cypress is based on mocha, so mocha-specific rules are included in cypress config
+  if (cypress) {
+    config.push(...withoutPlaywrightFiles(cypressConfig(resolvedOptions)));
+  } else if (mocha) {
+    config.push(...withoutPlaywrightFiles(mochaConfig(resolvedOptions)));
+  }
+
+  if (playwrightOptions) {
+    config.push(...playwrightConfig(playwrightOptions));
+  }
+
+  if (storybookOptions) {
+    config.push(...storybookConfig(storybookOptions));
+  }
+
+  if (resolvedOptions.markdown) {
+    config.push(...markdownConfig());
+  }
+
+  if (resolvedOptions.json) {
+    config.push(...jsonConfig());
+  }
+
+  const { severity = 'error' } = resolvedOptions;
+  return severity === 'error' ? config : withSeverity(config, severity);
+}
+
+/**
+ * Point typescript-eslint's `projectService` and the import resolver to the tsconfig.json of a workspace (or of the project).
+ */
+function tsconfigRootConfig(dir: string, profile: Profile = 'ci'): Linter.Config {
+  const tsconfigRootDir = path.resolve(dir);
+  const tsconfig = path.join(tsconfigRootDir, 'tsconfig.json');
+  return {
+    name: 'tsconfig-root',
+    files: ['**/*.?(m|c)ts?(x)'],
+    languageOptions: { parserOptions: { tsconfigRootDir } },
+    // the typescript import resolver is not used in 'editor' profile
+    ...(profile !== 'editor' &&
+      fs.existsSync(tsconfig) && {
+        settings: {
+          'import-x/resolver': { typescript: { alwaysTryTypes: true, project: tsconfig } },
+        },
+      }),
+  };
+}
+
+/**
+ * graphql-eslint loads the graphql config once and reuses it for all files, so graphql projects of all workspaces
+ * are merged into a single config, shared by all graphql blocks. Files are matched to projects by their globs.
+ */
+function shareGraphqlConfig(config: Linter.Config[]) {
+  const depth = (dir: string) => (dir === '.' ? 0 : dir.split('/').length);
+  // a file belongs to the first project matching it, so nested workspaces go before their parents
+  const projects = Object.fromEntries(
+    config
+      .flatMap((block) => Object.entries(getGraphqlProjects(block) ?? {}))
+      .sort(([a], [b]) => depth(b) - depth(a))
+  );
+  return config.map((block) =>
+    getGraphqlProjects(block)
+      ? { ...block, languageOptions: withGraphqlProjects(block, projects) }
+      : block
+  );
+}
+
+// graphql projects of a block built by `graphqlConfig()`, keyed by directory
+type GraphqlProject = { schema: string[]; documents: string[]; exclude: string[] };
+
+function getGraphqlProjects(block: Linter.Config): Record<string, GraphqlProject> | undefined {
+  const languageOptions: Linter.LanguageOptions | undefined = block.languageOptions;
+  return languageOptions?.parserOptions?.graphQLConfig?.projects;
+}
+
+function withGraphqlProjects(block: Linter.Config, projects: Record<string, GraphqlProject>) {
+  const languageOptions: Linter.LanguageOptions = block.languageOptions ?? {};
+  return {
+    ...languageOptions,
+    parserOptions: { ...languageOptions.parserOptions, graphQLConfig: { projects } },
+  };
+}
+
+/**
+ * Scope config blocks to files in a workspace directory, by prefixing their `files` and `ignores` globs with it.
+ * Files in `excludedDirs` (i.e. other workspaces) are ignored by all blocks, except global ignores.
+ */
+function scopeConfig(config: Linter.Config[], dir: string | undefined, excludedDirs: string[]) {
+  const scope = (glob: string) =>
+    !dir ? glob : glob.startsWith('!') ? `!${dir}/${glob.slice(1)}` : `${dir}/${glob}`;
+  const excluded = excludedDirs.map((excludedDir) => `${excludedDir}/**`);
+  const scopeGraphqlProject = ({ schema, documents, exclude }: GraphqlProject) => ({
+    schema: schema.map(scope),
+    documents: documents.map(scope),
+    exclude: [...exclude.map(scope), ...excluded],
+  });
+
+  return config.map((block): Linter.Config => {
+    // a block with `ignores` only ignores files globally
+    const globalIgnores = Object.keys(block).every((key) => key === 'name' || key === 'ignores');
+    if (globalIgnores) {
+      return { ...block, ignores: block.ignores!.map(scope) };
+    }
+    const ignores = [...(block.ignores ?? []).map(scope), ...excluded];
+    const graphqlProjects = getGraphqlProjects(block);
+    return {
+      ...block,
+      ...(dir && block.name && { name: `workspaces/${dir}/${block.name}` }),
+      // graphql projects of workspaces are merged into one graphql config in `customize()`
+      ...(graphqlProjects && {
+        languageOptions: withGraphqlProjects(block, {
+          [dir ?? '.']: scopeGraphqlProject(graphqlProjects['.']),
+        }),
+      }),
+      // blocks without `files` apply to all files in the workspace
+      ...((block.files || dir) && {
+        files: (block.files ?? ['**']).map((pattern) =>
+          Array.isArray(pattern) ? pattern.map(scope) : scope(pattern as string)
+        ),
+      }),
+      ...(ignores.length && { ignores }),
+    };
+  });
+}
+
+// building blocks exported along with the function, to compose a custom config, e.g.
+// `const { base, typescript, jest } = require('@ovos-media/coding-standard/eslint')`
+customize.base = baseConfig;
+customize.typescript = typescriptConfig;
+customize.react = reactConfig;
+customize.fileNaming = fileNamingConfig;
+customize.graphql = graphqlConfig;
+customize.node = nodeConfig;
+customize.jest = jestConfig;
+customize.vitest = vitestConfig;
+customize.mocha = mochaConfig;
+customize.cypress = cypressConfig;
+customize.playwright = playwrightConfig;
+customize.storybook = storybookConfig;
+customize.markdown = markdownConfig;
+customize.json = jsonConfig;
+
+// globally ignored files and directories
+customize.ignores = globalIgnores as readonly string[];
+// names of formatting rules, which are handled by prettier when `prettier` option is enabled
+customize.formattingRuleNames = formattingRules as readonly string[];
+// stricter rules for new code, applied with `strict` option
+customize.strictRuleNames = Object.keys(strictRules) as readonly string[];
+// type-aware rules with our overrides, applied with `typeChecked` option
+customize.typeCheckedRuleNames = Object.keys(typeCheckedOverrides) as readonly string[];
+
+// types exported along with the function (declarations only), e.g.
+// `import type { CustomizeOptions } from '@ovos-media/coding-standard/eslint'`
+declare namespace customize {
+  export type CustomizeOptions = import('./options').CustomizeOptions;
+  export type Environment = import('./options').Environment;
+  export type FileNamingOptions = import('./options').FileNamingOptions;
+  export type GraphqlOptions = import('./options').GraphqlOptions;
+  export type Profile = import('./options').Profile;
+  export type WorkspaceOptions = import('./options').WorkspaceOptions;
+  export type BaseOptions = BaseConfigOptions;
+  export type TypescriptOptions = TypescriptConfigOptions;
+  export type ReactOptions = ReactConfigOptions;
+  export type NodeOptions = NodeConfigOptions;
+  export type PlaywrightOptions = PlaywrightConfigOptions;
+  export type StorybookOptions = StorybookConfigOptions;
+  export type TestsOptions = TestsConfigOptions;
 }
 
 // https://stackoverflow.com/questions/62516916/how-do-i-make-export-default-compile-to-module-exports
@@ -0,0 +1,256 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { ESLint, Linter } from 'eslint';
+
+import type { CustomizeOptions } from './options';
+
+export type RuleSetting = {
+  severity: 'off' | 'warn' | 'error';
+  // rule options, e.g. `[{ allowShortCircuit: true }]`
+  options: unknown[];
+};
+
+export type Explanation = {
+  // names of config blocks applying to the file, in order (unnamed blocks as `#<index>`)
+  blocks: string[];
+  // final settings of all configured rules, with names of the blocks configuring them (the last one wins)
+  rules: Record<string, RuleSetting & { blocks: string[] }>;
+};
+
+export type DiffSide = {
+  // Directory of an installed version of this package, e.g. `node_modules/@ovos-media/coding-standard`. (default: this package)
+  packageDir?: string;
+  // Options of `customize()`. (default: `{ detect: true }`)
+  options?: CustomizeOptions;
+};
+
+export type DiffOptions = {
+  // Working directory, against which `customize()` options and sample files are resolved. (default: `process.cwd()`)
+  cwd?: string;
+  // Sample files, which resolved configs are compared, relative to cwd. Files do not need to exist.
+  // (default: `defaultSampleFiles`)
+  files?: string[];
+  from?: DiffSide;
+  to?: DiffSide;
+};
+
+export type RuleChange = {
+  rule: string;
+  // undefined when the rule is not configured
+  before?: RuleSetting;
+  after?: RuleSetting;
+  // sample files with this change
+  files: string[];
+};
+
+export type ConfigDiff = {
+  // labels of compared configs, e.g. `3.0.1`, or `3.0.1 with {"react":true}` when options differ
+  from: string;
+  to: string;
+  // rules enabled in `to`, which are off or not configured in `from`
+  added: RuleChange[];
+  // rules enabled in `from`, which are off or not configured in `to`
+  removed: RuleChange[];
+  // rules enabled in both, with different severity or options
+  changed: RuleChange[];
+};
+
+// a file of each kind handled by separate config blocks
+export const defaultSampleFiles = [
+  'src/index.js',
+  'src/index.ts',
+  'src/components/Button.tsx',
+  'src/index.test.ts',
+  'test/index.test.ts',
+];
+
+const severities = ['off', 'warn', 'error'] as const;
+
+// settings key marking which blocks apply to a file, see `explain()`
+const markerPrefix = 'coding-standard/block-';
+
+/**
+ * Explain which config blocks of the project's eslint config apply to given file, and which rules they configure.
+ * The file does not need to exist, e.g. to check the config of a file before creating it.
+ */
+export async function explain(file: string, options: { cwd?: string } = {}): Promise<Explanation> {
+  const { cwd = process.cwd() } = options;
+  const configFile = await new ESLint({ cwd }).findConfigFile();
+  if (!configFile) {
+    throw new Error(
+      `Could not find eslint config file in '${cwd}' or any of its parent directories.`
+    );
+  }
+  const { default: loaded } = await import(pathToFileURL(configFile).href);
+  const config: Linter.Config[] = [await loaded].flat(Infinity);
+
+  // blocks are marked with settings, which are merged for the file by eslint itself, honoring all its matching rules
+  // (global ignores stay unmarked, as any other key would turn them into ignores of a regular block)
+  const isGlobalIgnores = (block: Linter.Config) =>
+    Object.keys(block).every((key) => key === 'ignores' || key === 'name');
+  const marked = config.map((block, index) =>
+    isGlobalIgnores(block)
+      ? block
+      : { ...block, settings: { ...block.settings, [`${markerPrefix}${index}`]: true } }
+  );
+  const resolved: Linter.Config | undefined = await new ESLint({
+    cwd: path.dirname(configFile),
+    overrideConfigFile: true,
+    overrideConfig: marked,
+  }).calculateConfigForFile(path.resolve(cwd, file));
+  if (!resolved) {
+    return { blocks: [], rules: {} };
+  }
+
+  const applying = config
+    .map((block, index) => ({ block, name: block.name ?? `#${index}` }))
+    .filter((_, index) => resolved.settings?.[`${markerPrefix}${index}`]);
+  const rules: Explanation['rules'] = {};
+  for (const [rule, entry] of Object.entries(resolved.rules ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    const blocks = applying.filter(({ block }) => block.rules?.[rule]).map(({ name }) => name);
+    rules[rule] = { ...toRuleSetting(entry!), blocks };
+  }
+
+  return { blocks: applying.map(({ name }) => name), rules };
+}
+
+/**
+ * Compare resolved configs of two versions of this package, or of two option sets, for sample files.
+ */
+export async function diffConfigs(options: DiffOptions = {}): Promise<ConfigDiff> {
+  const { cwd = process.cwd(), files = defaultSampleFiles, from = {}, to = {} } = options;
+  // `customize()` resolves globs, workspaces and tsconfig.json against cwd, the same as when loaded from eslint.config.js
+  const originalCwd = process.cwd();
+  process.chdir(cwd);
+  let sides: ReturnType<typeof loadSide>[];
+  try {
+    sides = [from, to].map(loadSide);
+  } finally {
+    process.chdir(originalCwd);
+  }
+  const [before, after] = sides;
+  const changes = new Map<string, RuleChange>();
+  for (const file of files) {
+    const beforeRules = await resolveRules(before.config, file, cwd);
+    const afterRules = await resolveRules(after.config, file, cwd);
+    for (const rule of new Set([...Object.keys(beforeRules), ...Object.keys(afterRules)])) {
+      const change = { rule, before: beforeRules[rule], after: afterRules[rule] };
+      const [beforeText, afterText] = [change.before, change.after].map(formatRuleSetting);
+      if (beforeText === afterText) {
+        continue;
+      }
+      // the same change in multiple files is listed once
+      const key = JSON.stringify([rule, beforeText, afterText]);
+      changes.set(key, { ...change, files: [...(changes.get(key)?.files ?? []), file] });
+    }
+  }
+
+  const isEnabled = (setting?: RuleSetting) => !!setting && setting.severity !== 'off';
+  const sorted = [...changes.values()].sort((a, b) => a.rule.localeCompare(b.rule));
+  // package directories and options are part of the labels, when they differ
+  const label = ({ packageDir, version, options }: ReturnType<typeof loadSide>) =>
+    (before.version === after.version && before.packageDir !== after.packageDir
+      ? `${version} (${packageDir})`
+      : version) + (before.options === after.options ? '' : ` with \`${options}\``);
+  return {
+    from: label(before),
+    to: label(after),
+    added: sorted.filter((change) => !isEnabled(change.before) && isEnabled(change.after)),
+    removed: sorted.filter((change) => isEnabled(change.before) && !isEnabled(change.after)),
+    changed: sorted.filter((change) => isEnabled(change.before) && isEnabled(change.after)),
+  };
+}
+
+/**
+ * Render a config diff as Markdown, e.g. for release notes or a description of an upgrade PR.
+ */
+export function renderDiffMarkdown(diff: ConfigDiff) {
+  const lines = [`## ESLint config changes`, '', `From ${diff.from} to ${diff.to}.`];
+  const sections: [string, RuleChange[]][] = [
+    ['Added rules', diff.added],
+    ['Removed rules', diff.removed],
+    ['Changed rules', diff.changed],
+  ];
+  if (sections.every(([, changes]) => !changes.length)) {
+    lines.push('', 'No rules changed.');
+  }
+  for (const [title, changes] of sections.filter(([, changes]) => changes.length)) {
+    lines.push(
+      '',
+      `### ${title}`,
+      '',
+      '| Rule | Before | After | Files |',
+      '| --- | --- | --- | --- |'
+    );
+    for (const { rule, before, after, files } of changes) {
+      const cells = [
+        `\`${rule}\``,
+        before ? `\`${formatRuleSetting(before)}\`` : '-',
+        after ? `\`${formatRuleSetting(after)}\`` : '-',
+        files.map((file) => `\`${file}\``).join(', '),
+      ];
+      // pipes in rule options would break the table
+      lines.push(`| ${cells.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format a rule setting in the same shape as in eslint configs, e.g. `error` or `["error",{"allow":["warn"]}]`.
+ */
+export function formatRuleSetting(setting: RuleSetting | undefined) {
+  if (!setting) {
+    return undefined;
+  }
+  // options of disabled rules make no difference
+  return setting.options.length && setting.severity !== 'off'
+    ? JSON.stringify([setting.severity, ...setting.options])
+    : setting.severity;
+}
+
+function toRuleSetting(entry: Linter.RuleEntry): RuleSetting {
+  const [severity, ...options] = Array.isArray(entry) ? entry : [entry];
+  // eslint resolves `'error'` of rules with default options to `['error', {}]`
+  while (isEmptyObject(options[options.length - 1])) {
+    options.pop();
+  }
+  return {
+    severity: typeof severity === 'number' ? severities[severity] : severity,
+    options,
+  };
+}
+
+function loadSide(side: DiffSide) {
+  const { options = { detect: true } } = side;
+  const packageDir = path.resolve(side.packageDir ?? __dirname);
+  const customize: (options: CustomizeOptions) => Linter.Config[] = require(
+    path.join(packageDir, 'eslint.js')
+  );
+  const { version } = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8'));
+  return { config: customize(options), options: JSON.stringify(options), packageDir, version };
+}
+
+async function resolveRules(config: Linter.Config[], file: string, cwd: string) {
+  const resolved: Linter.Config | undefined = await new ESLint({
+    cwd,
+    overrideConfigFile: true,
+    overrideConfig: config,
+  }).calculateConfigForFile(path.resolve(cwd, file));
+  return Object.fromEntries(
+    Object.entries(resolved?.rules ?? {}).map(([rule, entry]) => [rule, toRuleSetting(entry!)])
+  );
+}
+
+function isEmptyObject(value: unknown) {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !Object.keys(value).length
+  );
+}
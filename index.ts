@@ -1 +1,2 @@
 export { default as prettier } from './prettier';
+export { default as stylelint } from './stylelint';
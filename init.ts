@@ -0,0 +1,262 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { type DetectedOptions, type ProjectInfo, detectProject } from './detect';
+
+export type InitOptions = {
+  // Working directory, in which the nearest package.json is looked up. (default: `process.cwd()`)
+  cwd?: string;
+  // Whether to only compute the changes, without writing any files. (default: false)
+  dryRun?: boolean;
+  // Whether to overwrite existing eslint and prettier config files. (default: false)
+  force?: boolean;
+};
+
+export type FileChange = {
+  // path relative to the project root
+  file: string;
+  // empty string for new files
+  before: string;
+  after: string;
+};
+
+// directories which are never looked into, the same as ignored in `customize()` + some more
+const ignoredDirs = ['node_modules', 'build', 'coverage', '.yalc', '.git', 'dist'];
+
+const eslintConfigFiles = [
+  'eslint.config.js',
+  'eslint.config.mjs',
+  'eslint.config.cjs',
+  'eslint.config.ts',
+];
+const prettierConfigFiles = [
+  'prettier.config.js',
+  'prettier.config.mjs',
+  'prettier.config.cjs',
+  '.prettierrc',
+  '.prettierrc.json',
+  '.prettierrc.yml',
+  '.prettierrc.yaml',
+  '.prettierrc.js',
+  '.prettierrc.cjs',
+  '.prettierrc.mjs',
+];
+
+const scripts = {
+  lint: 'eslint .',
+  format: 'prettier --write .',
+};
+
+/**
+ * Scaffold eslint and prettier config files based on the detected project stack,
+ * and add `lint`/`format` scripts to package.json.
+ *
+ * Returns the list of changed (or to be changed, when `dryRun: true`) files.
+ */
+export function init(options: InitOptions = {}) {
+  const { cwd = process.cwd(), dryRun = false, force = false } = options;
+  const project = detectProject(cwd);
+  const { root, packageJson } = project;
+  const changes: FileChange[] = [];
+  const skipped: string[] = [];
+
+  const read = (file: string) =>
+    fs.existsSync(path.join(root, file)) ? fs.readFileSync(path.join(root, file), 'utf8') : '';
+  const change = (file: string, after: string) => {
+    const before = read(file);
+    if (before !== after) {
+      changes.push({ file, before, after });
+    }
+  };
+
+  const existingEslintConfig = eslintConfigFiles.find((file) => read(file));
+  if (existingEslintConfig && !force) {
+    skipped.push(existingEslintConfig);
+  } else {
+    // storybook config files are covered by `storybook` option
+    const disableTypeChecked = findFilesNotIncludedInTsconfig(root).filter(
+      (file) => !project.options.storybook || !file.startsWith('.storybook/')
+    );
+    change(
+      'eslint.config.js',
+      renderEslintConfig(
+        { ...(disableTypeChecked.length && { disableTypeChecked }), ...project.options },
+        project.moduleType
+      )
+    );
+  }
+
+  const existingPrettierConfig =
+    prettierConfigFiles.find((file) => read(file)) ??
+    (packageJson.prettier ? 'package.json' : undefined);
+  if (existingPrettierConfig && !force) {
+    skipped.push(existingPrettierConfig);
+  } else {
+    change('prettier.config.js', renderPrettierConfig(project.moduleType));
+  }
+
+  const missingScripts = Object.entries(scripts).filter(([name]) => !packageJson.scripts?.[name]);
+  if (missingScripts.length) {
+    const before = read('package.json');
+    const updated = {
+      ...packageJson,
+      scripts: { ...packageJson.scripts, ...Object.fromEntries(missingScripts) },
+    };
+    // keep the indentation of the existing file
+    const indent = before.match(/^[ \t]+(?=")/m)?.[0] ?? 2;
+    change('package.json', JSON.stringify(updated, null, indent) + '\n');
+  }
+
+  if (!dryRun) {
+    for (const { file, after } of changes) {
+      fs.writeFileSync(path.join(root, file), after);
+    }
+  }
+
+  return { changes, project, skipped };
+}
+
+/**
+ * Find ts files, which are not included in any tsconfig.json in the project, to be listed in `disableTypeChecked` option.
+ * Files covered by defaults of `customize()` (`*.config.ts`, `*.setup.ts`) are not listed.
+ */
+export function findFilesNotIncludedInTsconfig(root: string) {
+  const tsFiles = findFiles(root, (file) => /\.[mc]?tsx?$/.test(file));
+  if (!tsFiles.length) {
+    return [];
+  }
+
+  // typescript is a peer dependency of typescript-eslint, so it's available in ts projects
+  const ts: typeof import('typescript') = require('typescript');
+  const included = new Set<string>();
+  const parsed = new Set<string>();
+  const addTsconfig = (configFile: string) => {
+    if (parsed.has(configFile) || !fs.existsSync(configFile)) {
+      return;
+    }
+    parsed.add(configFile);
+    const { config } = ts.readConfigFile(configFile, ts.sys.readFile);
+    const { fileNames, projectReferences } = ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      path.dirname(configFile),
+      undefined,
+      configFile
+    );
+    fileNames.forEach((file) => included.add(path.resolve(file)));
+    // files of referenced projects are also found by typescript-eslint's `projectService`
+    projectReferences?.forEach((reference) =>
+      addTsconfig(ts.resolveProjectReferencePath(reference))
+    );
+  };
+  findFiles(root, (file) => path.basename(file) === 'tsconfig.json').forEach(addTsconfig);
+
+  return tsFiles
+    .filter((file) => !included.has(file))
+    .map((file) => path.relative(root, file).split(path.sep).join('/'))
+    .filter((file) => !/^[^/]+\.(config|setup)\.ts$/.test(file))
+    .sort();
+}
+
+/**
+ * Render a unified diff of two versions of a file, with 3 lines of context around the changes.
+ */
+export function unifiedDiff({ file, before, after }: FileChange) {
+  const a = before ? before.replace(/\n$/, '').split('\n') : [];
+  const b = after.replace(/\n$/, '').split('\n');
+
+  // longest common subsequence table, config files are small enough for the O(n*m) approach
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: Array<{ type: ' ' | '-' | '+'; text: string; i: number; j: number }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: ' ', text: a[i], i: i++, j: j++ });
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ type: '-', text: a[i], i: i++, j });
+    } else {
+      lines.push({ type: '+', text: b[j], i, j: j++ });
+    }
+  }
+
+  const context = 3;
+  const output = [`--- ${before ? `a/${file}` : '/dev/null'}`, `+++ b/${file}`];
+  let index = 0;
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((line, k) => k >= index && line.type !== ' ');
+    if (firstChange === -1) {
+      break;
+    }
+    const start = Math.max(index, firstChange - context);
+    // extend the hunk until there are more than 2 * context unchanged lines in a row
+    let end = firstChange;
+    for (let k = firstChange; k < lines.length && k - end <= 2 * context; k++) {
+      if (lines[k].type !== ' ') {
+        end = k;
+      }
+    }
+    end = Math.min(lines.length, end + context + 1);
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.type !== '+').length;
+    const newCount = hunk.filter((line) => line.type !== '-').length;
+    output.push(
+      `@@ -${oldCount ? hunk[0].i + 1 : 0},${oldCount} +${newCount ? hunk[0].j + 1 : 0},${newCount} @@`,
+      ...hunk.map((line) => line.type + line.text)
+    );
+    index = end;
+  }
+
+  return output.join('\n');
+}
+
+function renderEslintConfig(
+  options: DetectedOptions & { disableTypeChecked?: string[] },
+  moduleType: ProjectInfo['moduleType']
+) {
+  const entries = Object.entries(options)
+    .filter(([, value]) => value !== false)
+    .map(([key, value]) => {
+      const line = `  ${key}: ${renderValue(value)},`;
+      // wrap long arrays, one item per line, the same way as prettier does
+      return line.length > 100 && Array.isArray(value)
+        ? `  ${key}: [\n${value.map((item) => `    ${renderValue(item)},`).join('\n')}\n  ],`
+        : line;
+    });
+  const args = entries.length ? `{\n${entries.join('\n')}\n}` : '';
+
+  return moduleType === 'module'
+    ? `import eslint from '@ovos-media/coding-standard/eslint';\n\nexport default eslint(${args});\n`
+    : `const eslint = require('@ovos-media/coding-standard/eslint');\n\nmodule.exports = eslint(${args});\n`;
+}
+
+function renderPrettierConfig(moduleType: ProjectInfo['moduleType']) {
+  return moduleType === 'module'
+    ? `import { prettier } from '@ovos-media/coding-standard/prettier';\n\nexport default prettier();\n`
+    : `module.exports = require('@ovos-media/coding-standard').prettier;\n`;
+}
+
+function renderValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(renderValue).join(', ')}]`;
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  return String(value);
+}
+
+function findFiles(dir: string, predicate: (file: string) => boolean): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return ignoredDirs.includes(entry.name) ? [] : findFiles(file, predicate);
+    }
+    return entry.isFile() && predicate(file) ? [file] : [];
+  });
+}
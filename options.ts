@@ -0,0 +1,465 @@
+import path from 'node:path';
+
+import { globSync } from 'tinyglobby';
+
+import { findWorkspaceDirs } from './detect';
+
+export type Environment = 'node' | 'browser' | 'worker' | 'serviceworker' | 'shared';
+
+export type Profile = 'editor' | 'pre-commit' | 'ci';
+
+// categories of rules, which severities can be set with `severity` option
+export type RuleCategory = 'bugs' | 'imports' | 'naming' | 'stylistic' | 'suggestions' | 'tests';
+
+export type RuleSeverity = 'off' | 'warn' | 'error';
+
+export type CustomizeOptions = {
+  // Whether to enable accessibility rules from 'recommended' or 'strict' sets of eslint-plugin-jsx-a11y, when `react` is enabled. (default: false)
+  a11y?: false | 'recommended' | 'strict';
+  // Map of custom components to native elements they render, checked by accessibility rules the same way as the native elements.
+  // (default: `{ Button: 'button', Link: 'a' }`)
+  a11yComponents?: Record<string, string>;
+  // Map of import aliases to paths relative to the project root, in the same format as tsconfig `paths`.
+  // Used for `import/order` path groups, and for `ovos/prefer-alias` rule reporting deep relative imports (e.g. `../../../utils`).
+  // Example: `{ '@/*': 'src/*', '#internal/*': 'src/internal/*' }`
+  // (default: read from `compilerOptions.paths` of tsconfig.json and `imports` of package.json)
+  aliases?: Record<string, string>;
+  // Whether to ban or allow console usage.
+  // Defaults to 'ban-log' (which allows 'console.error()', 'console.warn()' and 'console.info()') when 'react': true, 'allow' otherwise.
+  console?: 'ban' | 'ban-log' | 'allow';
+  // Whether to infer `console`, `testsDir`, `cypress`, `jest`, `mocha`, `playwright`, `react`, `storybook` and `vitest` options
+  // from the nearest package.json and existing test directories. Explicitly set options always win. (default: false)
+  // Run `npx coding-standard detect` to see the inferred options.
+  detect?: boolean;
+  // List ts files which should be linted, but are not covered by tsconfig.json to avoid 'Parsing error (...) TSConfig does not include this file'
+  // https://typescript-eslint.io/linting/troubleshooting/#i-get-errors-telling-me-eslint-was-configured-to-run--however-that-tsconfig-does-not--none-of-those-tsconfigs-include-this-file
+  disableTypeChecked?: string[];
+  // File and folder naming conventions, merged with the defaults (e.g. camelCase for ts modules), or `true` for the defaults.
+  // Without the option, only react components, hooks and less files are checked. `false` disables them too.
+  // Example: `{ files: { 'src/models/*.ts': 'PASCAL_CASE' }, folders: { 'src/**/': 'CAMEL_CASE' } }`
+  fileNaming?: boolean | FileNamingOptions;
+  // Lint graphql schema and operations in `.graphql`/`.gql` files and in `gql`/`graphql` tagged templates of js/ts files,
+  // validating operations against the local schema files.
+  // Example: `{ schema: ['src/schema/**/*.graphql'] }`
+  graphql?: GraphqlOptions;
+  // Map of globs to runtime environments, which provide globals for matching files. (default: `globals.node` for all files)
+  // Example: `{ 'src/server/**': 'node', 'src/client/**': 'browser', 'src/shared/**': 'shared' }`
+  // Later entries take precedence over earlier ones for files matched by both. Use an array to combine environments, e.g. `['browser', 'worker']`.
+  environments?: Record<string, Environment | Environment[]>;
+  // Number of spaces to use for indentation, or 'tab' to use tabs (default: 2)
+  indent?: number | 'tab';
+  // Directory where test files are located. (default: `{spec,test,tests}`)
+  // Example: `src` for single directory, `{spec,tests}` to include multiple directories.
+  // In addition, files in `__tests__` folders and files with `*.spec.*`/`*.test.*` filenames are picked up as test files, even outside of `testsDir`.
+  testsDir?: string;
+  // Globs of test files, replacing the default ones: files in `testsDir`, files in `__tests__` folders and `*.spec.*`/`*.test.*` files.
+  // Example: `['src/**/*.test.ts', 'e2e/**/*.ts']`
+  testFiles?: string[];
+  // Globals provided by the test setup, for all test runners. (default: `{ DB: 'readonly', GQL: 'readonly', Setup: 'readonly', app: 'readonly' }`)
+  testGlobals?: Record<string, 'readonly' | 'writable'>;
+  // Custom helpers running tests, e.g. conditionally, which are treated as test blocks by all test runners.
+  // (default: `['testif', 'itif', 'testskipif', 'itskipif']`)
+  testBlockFunctions?: string[];
+  // Enable stricter rules (e.g. 'no-explicit-any') for new code, while legacy code is still being migrated to strict mode.
+  // Applies to ts files matching `files` globs, and to ts files with a `// @ovos-strict` header comment when `pragma: true` (or with a custom pragma, when a string is given).
+  // Example: `{ files: ['src/modules/**'], pragma: true }`
+  strict?: { files?: string[]; pragma?: boolean | string };
+  // Whether to enable type-aware rules from 'recommended-type-checked' or 'strict-type-checked' sets of typescript-eslint. (default: false)
+  // Type-aware rules are turned off automatically for files listed in `disableTypeChecked`.
+  typeChecked?: false | 'recommended' | 'strict';
+  // Where the config is used, the fast profiles defer the expensive parts of linting to CI. (default: 'ci')
+  // 'pre-commit' turns off type-aware rules (and type information for ts files), 'editor' also the typescript import resolver,
+  // 'ci' keeps the full set.
+  // Example: `process.env.CI ? 'ci' : 'editor'`
+  profile?: Profile;
+  // Severity of all rules, e.g. 'warn' when migrating an older codebase, or severities per category of rules (rules of other categories keep their severity).
+  // Categories: 'stylistic' (formatting and code style), 'imports' (ordering and style of imports), 'naming' (naming conventions of identifiers and files),
+  // 'tests' (rules of test runners), 'bugs' (possible bugs) and 'suggestions' (best practices, i.a. `no-console` as configured by `console` option).
+  // Rules turned off stay off. Example: `{ stylistic: 'warn', imports: 'warn', naming: 'off' }` (default: 'error')
+  severity?: 'warn' | 'error' | Partial<Record<RuleCategory, RuleSeverity>>;
+  // Whether to enable Cypress-specific rules. (default: false)
+  cypress?: boolean;
+  // Whether to enable Jest-specific rules. (default: false)
+  jest?: boolean;
+  // Whether to lint json files, incl. JSONC config files (e.g. tsconfig.json) and sorted dependencies in package.json. (default: false)
+  json?: boolean;
+  // Whether to lint js/ts code blocks in markdown files, with a relaxed subset of rules. (default: false)
+  markdown?: boolean;
+  // Whether to enable Mocha-specific rules. (default: false)
+  mocha?: boolean;
+  // Whether to enable Node.js-specific rules, driven by `engines.node` and `type` of package.json. (default: false)
+  node?: boolean;
+  // Whether to enable Playwright-specific rules for end-to-end tests in `files`. (default: false)
+  // Example: `{ files: ['tests/e2e/**/*.ts'] }` (default files: `['e2e/**/*.?(m|c)[jt]s']`)
+  playwright?: boolean | { files?: string[] };
+  // Whether formatting is handled by prettier. Disables formatting rules, which are conflicting with prettier. (default: false)
+  prettier?: boolean;
+  // Whether to enable React-specific rules. (default: false)
+  react?: boolean;
+  // Whether to enable Storybook-specific rules for stories in `files`, and for config files in `.storybook` directory. (default: false)
+  // Example: `{ files: ['src/**/*.stories.tsx'] }` (default files: `['**/*.stories.?(m|c)[jt]s?(x)']`)
+  storybook?: boolean | { files?: string[] };
+  // Whether to enable Vitest-specific rules. (default: false)
+  vitest?: boolean;
+  // Root directory of the project, usually `import.meta.dirname` (or `__dirname`) of eslint.config.js.
+  // Passed to typescript-eslint as `tsconfigRootDir` for files outside of workspaces, and used to check that
+  // `disableTypeChecked` and `graphql.schema` globs match any files, which is skipped otherwise. (default: none)
+  tsconfigRootDir?: string;
+  // Map of workspace directories of a monorepo (or globs of directories, e.g. `packages/*`) to their own options.
+  // Workspace options are merged over the top-level options, which apply to files outside of workspaces.
+  // All globs in workspace options (e.g. `testsDir`, `disableTypeChecked`) are relative to the workspace directory.
+  // Example: `{ 'apps/web': { react: true, vitest: true }, 'apps/api': { jest: true }, 'packages/*': {} }`
+  workspaces?: Record<string, WorkspaceOptions>;
+};
+
+export type FileNamingOptions = {
+  // Map of file globs to naming conventions of 'eslint-plugin-check-file' (e.g. 'CAMEL_CASE', 'PASCAL_CASE', 'KEBAB_CASE' or a custom glob),
+  // merged with the defaults. Set a default glob to `false` to disable it. Middle extensions are ignored, e.g. `Button.test.tsx` is checked as `Button`.
+  files?: Record<string, string | false>;
+  // Map of folder globs to naming conventions, e.g. `{ 'src/**/': 'CAMEL_CASE' }`. (default: none)
+  folders?: Record<string, string | false>;
+  // Whether the default export of a PascalCase jsx/tsx file (i.e. a react component) should have the same name as the file. (default: true)
+  defaultExport?: boolean;
+};
+
+export type GraphqlOptions = {
+  // Globs of schema files (SDL) in the repo, used to validate operations. Remote schemas (URLs) are not supported, to lint offline.
+  schema: string[];
+  // Globs of files with operations and fragments, e.g. to resolve fragments used in other files.
+  // (default: all `.graphql`/`.gql` and js/ts files, except the schema files)
+  documents?: string[];
+};
+
+export type WorkspaceOptions = Omit<CustomizeOptions, 'tsconfigRootDir' | 'workspaces'>;
+
+// validators of all keys of an object type
+type Schema<T> = { [K in keyof T]-?: Validator<NonNullable<T[K]>> };
+
+// validator of a single option value, `T` keeps the schema in sync with `CustomizeOptions` type
+type Validator<T> = {
+  // human-readable description of the expected value, e.g. "a boolean"
+  expected: string;
+  // returns list of problems, empty when the value is valid
+  validate: (value: unknown, name: string) => string[];
+  // whether the validator checks an array
+  array?: boolean;
+  // whether the validator checks an object with known keys
+  shape?: boolean;
+  // type marker only, never set
+  type?: T;
+};
+
+const environments: Environment[] = ['node', 'browser', 'worker', 'serviceworker', 'shared'];
+
+const format = (value: unknown) => (typeof value === 'string' ? `'${value}'` : String(value));
+
+const describe = (value: unknown) =>
+  Array.isArray(value)
+    ? 'an array'
+    : `${format(value)} (${value === null ? 'null' : typeof value})`;
+
+function is<T>(expected: string, check: (value: unknown) => boolean): Validator<T> {
+  return {
+    expected,
+    validate: (value, name) =>
+      check(value) ? [] : [`Option '${name}' should be ${expected}, received ${describe(value)}.`],
+  };
+}
+
+const boolean = is<boolean>('a boolean', (value) => typeof value === 'boolean');
+
+const string = is<string>('a string', (value) => typeof value === 'string' && value !== '');
+
+function oneOf<T extends string | boolean>(...values: T[]) {
+  return is<T>(values.map(format).join(' | '), (value) => values.includes(value as T));
+}
+
+function union<A, B>(a: Validator<A>, b: Validator<B>): Validator<A | B> {
+  return {
+    expected: `${a.expected} or ${b.expected}`,
+    validate: (value, name) => {
+      const problems = [a.validate(value, name), b.validate(value, name)];
+      if (problems.some((list) => !list.length)) {
+        return [];
+      }
+      // report problems of array items or object keys, instead of the whole value not matching
+      const nestedProblems =
+        (Array.isArray(value) && problems.find((list, index) => [a, b][index].array)) ||
+        (isObject(value) && problems.find((list, index) => [a, b][index].shape));
+      return (
+        nestedProblems || [
+          `Option '${name}' should be ${a.expected} or ${b.expected}, received ${describe(value)}.`,
+        ]
+      );
+    },
+  };
+}
+
+function arrayOf<T>(item: Validator<T>): Validator<T[]> {
+  return {
+    expected: `an array of ${item.expected}`,
+    array: true,
+    validate: (value, name) =>
+      Array.isArray(value)
+        ? value.flatMap((element, index) => item.validate(element, `${name}[${index}]`))
+        : [`Option '${name}' should be an array, received ${describe(value)}.`],
+  };
+}
+
+function recordOf<T>(item: Validator<T>): Validator<Record<string, T>> {
+  return {
+    expected: 'an object',
+    validate: (value, name) =>
+      isObject(value)
+        ? Object.entries(value).flatMap(([key, element]) =>
+            item.validate(element, `${name}['${key}']`)
+          )
+        : [`Option '${name}' should be an object, received ${describe(value)}.`],
+  };
+}
+
+function shape<T extends object>(schema: Schema<T>): Validator<T> {
+  return {
+    expected: 'an object',
+    shape: true,
+    validate: (value, name) =>
+      isObject(value)
+        ? validateShape(value, schema, `${name}.`)
+        : [`Option '${name}' should be an object, received ${describe(value)}.`],
+  };
+}
+
+// directory or glob of directories, relative to the project root, e.g. `tests` or `{spec,tests}`
+const directory: Validator<string> = {
+  expected: 'a directory',
+  validate: (value, name) => {
+    if (typeof value !== 'string' || !value) {
+      return [`Option '${name}' should be a non-empty string, received ${describe(value)}.`];
+    }
+    const fixed = value.replace(/^\.\//, '').replace(/\/+$/, '');
+    if (fixed !== value) {
+      return [
+        `Option '${name}' should be a path relative to the project root without leading './' and trailing '/', use '${fixed}' instead of '${value}'.`,
+      ];
+    }
+    if (value.startsWith('/')) {
+      return [
+        `Option '${name}' should be a path relative to the project root, received absolute path '${value}'.`,
+      ];
+    }
+    return [];
+  },
+};
+
+const ruleSeverity = oneOf<RuleSeverity>('off', 'warn', 'error');
+
+const workspaceSchema: Schema<WorkspaceOptions> = {
+  a11y: oneOf<false | 'recommended' | 'strict'>(false, 'recommended', 'strict'),
+  a11yComponents: recordOf(string),
+  aliases: recordOf(string),
+  console: oneOf('ban', 'ban-log', 'allow'),
+  detect: boolean,
+  disableTypeChecked: arrayOf(string),
+  fileNaming: union(
+    boolean,
+    shape<FileNamingOptions>({
+      files: recordOf(union(string, oneOf(false))),
+      folders: recordOf(union(string, oneOf(false))),
+      defaultExport: boolean,
+    })
+  ),
+  graphql: shape<GraphqlOptions>({
+    schema: arrayOf(string),
+    documents: arrayOf(string),
+  }),
+  environments: recordOf(union(oneOf(...environments), arrayOf(oneOf(...environments)))),
+  indent: union(
+    is<number>('a positive integer', (value) => Number.isInteger(value) && (value as number) > 0),
+    oneOf('tab')
+  ),
+  testsDir: directory,
+  testFiles: arrayOf(string),
+  testGlobals: recordOf(oneOf('readonly', 'writable')),
+  testBlockFunctions: arrayOf(string),
+  strict: shape<NonNullable<CustomizeOptions['strict']>>({
+    files: arrayOf(string),
+    pragma: union(boolean, string),
+  }),
+  typeChecked: oneOf<false | 'recommended' | 'strict'>(false, 'recommended', 'strict'),
+  profile: oneOf<Profile>('editor', 'pre-commit', 'ci'),
+  severity: union(
+    oneOf<'warn' | 'error'>('warn', 'error'),
+    shape<Partial<Record<RuleCategory, RuleSeverity>>>({
+      bugs: ruleSeverity,
+      imports: ruleSeverity,
+      naming: ruleSeverity,
+      stylistic: ruleSeverity,
+      suggestions: ruleSeverity,
+      tests: ruleSeverity,
+    })
+  ),
+  cypress: boolean,
+  jest: boolean,
+  json: boolean,
+  markdown: boolean,
+  mocha: boolean,
+  node: boolean,
+  playwright: union(boolean, shape<{ files?: string[] }>({ files: arrayOf(string) })),
+  prettier: boolean,
+  react: boolean,
+  storybook: union(boolean, shape<{ files?: string[] }>({ files: arrayOf(string) })),
+  vitest: boolean,
+};
+
+const schema: Schema<CustomizeOptions> = {
+  ...workspaceSchema,
+  tsconfigRootDir: is<string>(
+    'an absolute path',
+    (value) => typeof value === 'string' && path.isAbsolute(value)
+  ),
+  workspaces: recordOf(shape(workspaceSchema)),
+};
+
+/**
+ * Validate options passed to `customize()`, throws an error listing all problems found.
+ *
+ * Checks types of all options, unknown options (with suggestions for typos),
+ * and contradictory combinations of options.
+ */
+export function validateOptions(options: unknown): asserts options is CustomizeOptions {
+  if (!isObject(options)) {
+    throw new Error(`Options should be an object, received ${describe(options)}.`);
+  }
+  const problems = validateShape(options, schema, '');
+
+  if (!problems.length) {
+    const { tsconfigRootDir, workspaces = {}, ...rootOptions } = options as CustomizeOptions;
+    // globs are not checked against cwd, which is the directory eslint is run from, not necessarily the root of the project
+    problems.push(
+      ...validateCombinations(rootOptions, tsconfigRootDir ? [tsconfigRootDir] : [], '')
+    );
+
+    // workspaces are looked up in cwd, the same way as in `customize()`
+    const cwd = process.cwd();
+    const dirs = findWorkspaceDirs(Object.keys(workspaces), cwd);
+    for (const [glob, workspaceOptions] of Object.entries(workspaces)) {
+      const name = `workspaces['${glob}']`;
+      const globProblems = directory.validate(glob, name);
+      const matched = [...dirs].filter(([, globs]) => globs.includes(glob)).map(([dir]) => dir);
+      if (!globProblems.length && !matched.length) {
+        globProblems.push(
+          `Option 'workspaces' contains '${glob}', which does not match any directories in '${cwd}'.`
+        );
+      }
+      problems.push(
+        ...globProblems,
+        ...validateCombinations(
+          { ...rootOptions, ...workspaceOptions },
+          matched.map((dir) => path.join(cwd, dir)),
+          ` in workspace '${glob}' (incl. inherited top-level options)`
+        )
+      );
+    }
+  }
+
+  if (problems.length) {
+    throw new Error(
+      `Invalid options passed to @ovos-media/coding-standard eslint config:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`
+    );
+  }
+}
+
+// check combinations of options, which are invalid even though each option is valid on its own
+function validateCombinations(options: WorkspaceOptions, dirs: string[], where: string) {
+  const {
+    a11y,
+    detect,
+    disableTypeChecked = [],
+    graphql,
+    jest,
+    react,
+    testsDir = '{spec,test,tests}',
+    vitest,
+  } = options;
+  const problems: string[] = [];
+  // `react` might be detected later
+  if (a11y && !react && !detect) {
+    problems.push(`Option 'a11y' is enabled${where}, but it has no effect without 'react' option.`);
+  }
+  if (jest && vitest) {
+    problems.push(
+      `Options 'jest' and 'vitest' are both enabled${where}, but they would target the same test files in '${testsDir}'. Enable only one of them.`
+    );
+  }
+  // globs are checked only in known directories
+  const matchesFiles = (glob: string) =>
+    !dirs.length ||
+    dirs.some((cwd) => globSync(glob, { cwd, dot: true, ignore: ['**/node_modules/**'] }).length);
+  for (const glob of disableTypeChecked) {
+    if (!matchesFiles(glob)) {
+      problems.push(
+        `Option 'disableTypeChecked' contains '${glob}'${where}, which does not match any files in '${dirs.join("', '")}'.`
+      );
+    }
+  }
+  if (graphql && !graphql.schema?.length) {
+    problems.push(`Option 'graphql.schema' is required${where}, to validate graphql operations.`);
+  }
+  for (const glob of graphql?.schema ?? []) {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(glob)) {
+      problems.push(
+        `Option 'graphql.schema' contains '${glob}'${where}, but only local schema files are supported. Save the schema to a file in the repo instead.`
+      );
+    } else if (!matchesFiles(glob)) {
+      problems.push(
+        `Option 'graphql.schema' contains '${glob}'${where}, which does not match any files in '${dirs.join("', '")}'.`
+      );
+    }
+  }
+  return problems;
+}
+
+function validateShape(
+  value: Record<string, unknown>,
+  shapeSchema: Record<string, Validator<unknown>>,
+  prefix: string
+) {
+  return Object.entries(value).flatMap(([key, element]) => {
+    if (!(key in shapeSchema)) {
+      const suggestion = suggest(key, Object.keys(shapeSchema));
+      return [
+        `Unknown option '${prefix}${key}'.${suggestion ? ` Did you mean '${prefix}${suggestion}'?` : ''}`,
+      ];
+    }
+    // `undefined` is the same as not set
+    return element === undefined ? [] : shapeSchema[key].validate(element, `${prefix}${key}`);
+  });
+}
+
+// find the most similar known key, for typos like `vitets` -> `vitest`
+function suggest(key: string, knownKeys: string[]) {
+  const [best] = knownKeys
+    .map((known) => ({ known, distance: levenshtein(key.toLowerCase(), known.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance);
+  return best && best.distance <= Math.max(2, Math.floor(key.length / 3)) ? best.known : undefined;
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
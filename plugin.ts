@@ -0,0 +1,692 @@
+import path from 'node:path';
+
+import type { AST, Rule, Scope, SourceCode } from 'eslint';
+import type * as ESTree from 'estree';
+
+type PreferAliasOptions = {
+  // Map of import aliases to absolute paths, in the same format as tsconfig `paths`, e.g. `{ '@/*': '/project/src/*' }`
+  aliases?: Record<string, string>;
+  // Number of parent directories a relative import may go up, before an alias is required. (default: 2)
+  maxParentLevels?: number;
+};
+
+/**
+ * Find an alias for an absolute path of an imported file, e.g. `/project/src/utils/date` -> `@/utils/date`.
+ * The most specific alias (with the longest target) wins.
+ */
+function toAlias(file: string, aliases: Record<string, string>) {
+  const sorted = Object.entries(aliases).sort(([, a], [, b]) => b.length - a.length);
+  for (const [alias, target] of sorted) {
+    if (!target.includes('*')) {
+      // exact alias, e.g. `{ 'config': '/project/src/config.ts' }`, imported with or without extension
+      if (file === target || file === target.replace(/\.[^./\\]+$/, '')) {
+        return alias;
+      }
+      continue;
+    }
+    const [targetPrefix, targetSuffix] = target.split('*');
+    const [aliasPrefix, aliasSuffix = ''] = alias.split('*');
+    if (
+      file.length > targetPrefix.length + targetSuffix.length &&
+      file.startsWith(targetPrefix) &&
+      file.endsWith(targetSuffix)
+    ) {
+      const matched = file.slice(targetPrefix.length, file.length - targetSuffix.length);
+      return aliasPrefix + matched.split(path.sep).join('/') + aliasSuffix;
+    }
+  }
+  return undefined;
+}
+
+const preferAlias: Rule.RuleModule = {
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description:
+        'Enforce import aliases instead of relative imports going up many parent directories',
+    },
+    fixable: 'code',
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          aliases: { type: 'object', additionalProperties: { type: 'string' } },
+          maxParentLevels: { type: 'integer', minimum: 0 },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      preferAlias: "Use '{{alias}}' instead of the relative import '{{source}}'.",
+    },
+  },
+  create(context) {
+    const { aliases = {}, maxParentLevels = 2 }: PreferAliasOptions = context.options[0] ?? {};
+    const dir = path.dirname(context.filename);
+
+    const check = (node: ESTree.Node | null | undefined) => {
+      if (node?.type !== 'Literal' || typeof node.value !== 'string') {
+        return;
+      }
+      const source = node.value;
+      // e.g. 3 for `../../../utils` and `../../..`
+      const segments = source.split('/');
+      const parentLevels = segments.findIndex((segment) => segment !== '..');
+      if ((parentLevels === -1 ? segments.length : parentLevels) <= maxParentLevels) {
+        return;
+      }
+      const alias = toAlias(path.resolve(dir, source), aliases);
+      if (alias) {
+        context.report({
+          node,
+          messageId: 'preferAlias',
+          data: { alias, source },
+          fix: (fixer) => {
+            const quote = node.raw?.[0] ?? "'";
+            return fixer.replaceText(node, `${quote}${alias}${quote}`);
+          },
+        });
+      }
+    };
+
+    return {
+      ImportDeclaration: (node) => check(node.source),
+      ExportAllDeclaration: (node) => check(node.source),
+      ExportNamedDeclaration: (node) => check(node.source),
+      ImportExpression: (node) => check(node.source),
+      CallExpression: (node) => {
+        if (node.callee.type === 'Identifier' && node.callee.name === 'require') {
+          check(node.arguments[0]);
+        }
+      },
+    };
+  },
+};
+
+/**
+ * Find the name of a default export, i.a. of components wrapped in HOCs, e.g. `memo(Button)` or `connect(mapState)(Button)`.
+ */
+function getDefaultExportName(
+  node: ESTree.Node | ESTree.ExportDefaultDeclaration['declaration']
+): string | undefined {
+  switch (node.type) {
+    case 'FunctionDeclaration':
+    case 'FunctionExpression':
+    case 'ClassDeclaration':
+    case 'ClassExpression':
+      return node.id?.name;
+    case 'Identifier':
+      return node.name;
+    case 'CallExpression':
+      return node.arguments[0] && getDefaultExportName(node.arguments[0]);
+    default:
+      return undefined;
+  }
+}
+
+const defaultExportMatchesFilename: Rule.RuleModule = {
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description:
+        'Enforce the same name of the default export as the name of a PascalCase file, e.g. of a react component',
+    },
+    schema: [],
+    messages: {
+      mismatch: "Default export '{{name}}' should have the same name as the file '{{expected}}'.",
+    },
+  },
+  create(context) {
+    // e.g. `Button` for `Button.tsx` and `Button/index.tsx`
+    const segments = context.filename.split(/[\\/]/);
+    const [basename, ...extensions] = segments[segments.length - 1].split('.');
+    const expected = basename === 'index' ? (segments[segments.length - 2] ?? '') : basename;
+    // files with a middle extension, e.g. `Button.test.tsx` or `Button.stories.tsx`, are not components themselves
+    if (extensions.length > 1 || !/^[A-Z]/.test(expected)) {
+      return {};
+    }
+
+    const check = (
+      node: ESTree.Node | ESTree.ExportDefaultDeclaration['declaration'],
+      name: string | undefined
+    ) => {
+      if (name && name !== expected) {
+        context.report({
+          node,
+          messageId: 'mismatch',
+          data: { name, expected },
+        });
+      }
+    };
+
+    return {
+      ExportDefaultDeclaration(node) {
+        check(node.declaration, getDefaultExportName(node.declaration));
+      },
+      // e.g. `export { Button as default }`, the name is unknown for `export { default } from './Button'`
+      ExportSpecifier(node) {
+        const exported =
+          node.exported.type === 'Identifier' ? node.exported.name : node.exported.value;
+        if (
+          exported === 'default' &&
+          node.local.type === 'Identifier' &&
+          node.local.name !== 'default'
+        ) {
+          check(node.local, node.local.name);
+        }
+      },
+    };
+  },
+};
+
+// custom helpers running tests conditionally, e.g. `itif(condition)('title', () => {})`
+export const defaultTestBlockFunctions = ['testif', 'itif', 'testskipif', 'itskipif'];
+
+type TestBlockFunctionsOptions = {
+  // Names of the helpers. (default: `['testif', 'itif', 'testskipif', 'itskipif']`)
+  functions?: string[];
+};
+
+const testBlockFunctionsSchema: Rule.RuleMetaData['schema'] = [
+  {
+    type: 'object',
+    properties: {
+      functions: { type: 'array', items: { type: 'string' } },
+    },
+    additionalProperties: false,
+  },
+];
+
+function createTestBlockFunctionsMatcher(context: Rule.RuleContext) {
+  const { functions = defaultTestBlockFunctions }: TestBlockFunctionsOptions =
+    context.options[0] ?? {};
+  // returns name of the helper for `itif` or `itif.only`
+  const getName = (node: ESTree.Node) => {
+    const helper =
+      node.type === 'MemberExpression' && isProperty(node, 'only') ? node.object : node;
+    return helper.type === 'Identifier' && functions.includes(helper.name)
+      ? helper.name
+      : undefined;
+  };
+  // returns name of the helper for `itif(condition)` or `itif.only(condition)`
+  const getCallName = (node: ESTree.Node) =>
+    node.type === 'CallExpression' ? getName(node.callee) : undefined;
+
+  return { getName, getCallName };
+}
+
+function isProperty(node: ESTree.MemberExpression, name: string) {
+  return node.computed
+    ? node.property.type === 'Literal' && node.property.value === name
+    : node.property.type === 'Identifier' && node.property.name === name;
+}
+
+const noFocusedConditionalTests: Rule.RuleModule = {
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description:
+        'Disallow focused tests with conditional test helpers, e.g. `itif.only()` or `itif(condition).only()`',
+    },
+    hasSuggestions: true,
+    schema: testBlockFunctionsSchema,
+    messages: {
+      focusedTest: "Unexpected focused test '{{name}}'.",
+      removeOnly: "Remove '.only'.",
+    },
+  },
+  create(context) {
+    const { getCallName, getName } = createTestBlockFunctionsMatcher(context);
+
+    return {
+      MemberExpression(node) {
+        // `itif.only(condition)` or `itif(condition).only('title')`
+        if (!isProperty(node, 'only')) {
+          return;
+        }
+        const name = getName(node.object) ?? getCallName(node.object);
+        if (!name) {
+          return;
+        }
+        context.report({
+          node: node.property,
+          messageId: 'focusedTest',
+          data: { name },
+          suggest: [
+            {
+              messageId: 'removeOnly',
+              fix: (fixer) => fixer.removeRange([node.object.range![1], node.range![1]]),
+            },
+          ],
+        });
+      },
+    };
+  },
+};
+
+/**
+ * Whether the value of an expression is always the same, e.g. `true`, `'yes'`, `[]` or `!0`.
+ */
+function isConstant(node: ESTree.Node): boolean {
+  switch (node.type) {
+    case 'Literal':
+    case 'ArrayExpression':
+    case 'ObjectExpression':
+    case 'ArrowFunctionExpression':
+    case 'FunctionExpression':
+    case 'ClassExpression':
+      return true;
+    case 'TemplateLiteral':
+      return node.expressions.every(isConstant);
+    case 'UnaryExpression':
+      return node.operator === 'void' || isConstant(node.argument);
+    case 'BinaryExpression':
+    case 'LogicalExpression':
+      return isConstant(node.left) && isConstant(node.right);
+    case 'Identifier':
+      return node.name === 'undefined';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Find an expression with side effects, e.g. `count++` or `enabled = true`.
+ * Function calls are not considered, as conditions like `isEnabled('feature')` are common.
+ */
+function findSideEffect(
+  node: ESTree.Node,
+  visitorKeys: SourceCode.VisitorKeys
+): ESTree.Node | undefined {
+  if (
+    node.type === 'AssignmentExpression' ||
+    node.type === 'UpdateExpression' ||
+    node.type === 'AwaitExpression' ||
+    node.type === 'YieldExpression' ||
+    (node.type === 'UnaryExpression' && node.operator === 'delete')
+  ) {
+    return node;
+  }
+  // bodies of functions are not evaluated as a part of the condition
+  if (node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression') {
+    return undefined;
+  }
+  // shallow copy, as node types have no index signature
+  const children: Record<string, unknown> = { ...node };
+  for (const key of visitorKeys[node.type] ?? []) {
+    const value = children[key];
+    for (const child of Array.isArray(value) ? value : [value]) {
+      const found = isNode(child) ? findSideEffect(child, visitorKeys) : undefined;
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+function isNode(value: unknown): value is ESTree.Node {
+  return typeof value === 'object' && value !== null && 'type' in value;
+}
+
+const validConditionalTestCondition: Rule.RuleModule = {
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Enforce a condition without side effects, which is not constant, in conditional test helpers',
+    },
+    schema: testBlockFunctionsSchema,
+    messages: {
+      missingCondition: "Missing condition of '{{name}}'.",
+      constantCondition:
+        "Condition of '{{name}}' is constant, run or skip the test without the helper instead.",
+      sideEffect:
+        "Condition of '{{name}}' should not have side effects, as it's evaluated when the test file is loaded.",
+    },
+  },
+  create(context) {
+    const { getCallName } = createTestBlockFunctionsMatcher(context);
+
+    return {
+      CallExpression(node) {
+        const name = getCallName(node);
+        if (!name) {
+          return;
+        }
+        const [condition] = node.arguments;
+        if (!condition) {
+          context.report({ node, messageId: 'missingCondition', data: { name } });
+        } else if (isConstant(condition)) {
+          context.report({ node: condition, messageId: 'constantCondition', data: { name } });
+        } else {
+          const sideEffect = findSideEffect(condition, context.sourceCode.visitorKeys);
+          if (sideEffect) {
+            context.report({ node: sideEffect, messageId: 'sideEffect', data: { name } });
+          }
+        }
+      },
+    };
+  },
+};
+
+const validConditionalTestTitle: Rule.RuleModule = {
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description:
+        'Enforce valid titles of tests with conditional test helpers, the same way as `valid-title` rule of jest and vitest',
+    },
+    fixable: 'code',
+    schema: testBlockFunctionsSchema,
+    messages: {
+      emptyTitle: "Title of '{{name}}' should not be empty.",
+      accidentalSpace: "Title of '{{name}}' should not have leading or trailing spaces.",
+      duplicatePrefix: "Title of '{{name}}' should not begin with '{{prefix}}'.",
+    },
+  },
+  create(context) {
+    const { getCallName } = createTestBlockFunctionsMatcher(context);
+
+    return {
+      CallExpression(node) {
+        // `itif(condition)('title', () => {})` or `itif(condition).only('title', () => {})`
+        const callee =
+          node.callee.type === 'MemberExpression' && isProperty(node.callee, 'only')
+            ? node.callee.object
+            : node.callee;
+        const name = getCallName(callee);
+        const [title] = node.arguments;
+        // titles which are not static strings are allowed, same as `ignoreTypeOfTestName` option of `valid-title`
+        const text =
+          title?.type === 'Literal' && typeof title.value === 'string'
+            ? title.value
+            : title?.type === 'TemplateLiteral' && !title.expressions.length
+              ? title.quasis[0].value.cooked
+              : undefined;
+        if (!name || text === undefined || text === null) {
+          return;
+        }
+        // inside of the quotes
+        const [start, end] = [title.range![0] + 1, title.range![1] - 1];
+        // e.g. `it` for `itif` and `itskipif`
+        const prefix = name.match(/^(it|test)/)?.[1];
+
+        if (!text.trim()) {
+          context.report({ node: title, messageId: 'emptyTitle', data: { name } });
+        } else if (text !== text.trim()) {
+          context.report({
+            node: title,
+            messageId: 'accidentalSpace',
+            data: { name },
+            fix: (fixer) =>
+              fixer.replaceTextRange(
+                [start, end],
+                context.sourceCode.text.slice(start, end).trim()
+              ),
+          });
+        } else if (prefix && text.toLowerCase().startsWith(`${prefix} `)) {
+          context.report({
+            node: title,
+            messageId: 'duplicatePrefix',
+            data: { name, prefix },
+            fix: (fixer) => fixer.removeRange([start, start + prefix.length + 1]),
+          });
+        }
+      },
+    };
+  },
+};
+
+// sections of package.json with maps of package names, sorted by npm and yarn when they add a package
+const defaultSortedPackageJsonKeys = [
+  'dependencies',
+  'devDependencies',
+  'optionalDependencies',
+  'peerDependencies',
+  'peerDependenciesMeta',
+  'overrides',
+  'resolutions',
+];
+
+// conventional order of top-level keys of package.json, as documented by npm (https://docs.npmjs.com/cli/configuring-npm/package-json)
+const defaultPackageJsonOrder = [
+  '$schema',
+  'name',
+  'version',
+  'private',
+  'description',
+  'keywords',
+  'homepage',
+  'bugs',
+  'repository',
+  'funding',
+  'license',
+  'author',
+  'contributors',
+  'type',
+  'exports',
+  'imports',
+  'main',
+  'module',
+  'browser',
+  'types',
+  'typesVersions',
+  'bin',
+  'man',
+  'files',
+  'directories',
+  'workspaces',
+  'scripts',
+  'config',
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'peerDependenciesMeta',
+  'optionalDependencies',
+  'bundleDependencies',
+  'overrides',
+  'resolutions',
+  'engines',
+  'os',
+  'cpu',
+  'packageManager',
+  'publishConfig',
+];
+
+type SortPackageJsonOptions = {
+  // Characters in the sort order, characters missing in the alphabet are sorted after them by their code point.
+  alphabet?: string;
+  // Top-level keys of package.json with objects, which keys should be sorted. (default: `defaultSortedPackageJsonKeys`)
+  keys?: string[];
+  // Order of top-level keys of package.json, other keys stay in place. (default: `defaultPackageJsonOrder`)
+  order?: string[];
+};
+
+// minimal shape of the JSON AST of @eslint/json (https://github.com/humanwhocodes/momoa)
+type JsonNode = { type: string; range: [number, number]; loc: AST.SourceLocation };
+type JsonMember = JsonNode & { name: JsonNode & { value: string }; value: JsonNode };
+type JsonObject = JsonNode & { type: 'Object'; members: JsonMember[] };
+
+const sortPackageJson: Rule.RuleModule = {
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description:
+        'Enforce sorted keys in dependencies and other maps of package names in package.json',
+    },
+    fixable: 'code',
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          alphabet: { type: 'string' },
+          keys: { type: 'array', items: { type: 'string' } },
+          order: { type: 'array', items: { type: 'string' } },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      unsorted: "Expected '{{name}}' to be before '{{previous}}' in '{{key}}'.",
+      unsortedKey: "Expected '{{name}}' to be before '{{previous}}'.",
+    },
+  },
+  create(context) {
+    const {
+      alphabet = '',
+      keys = defaultSortedPackageJsonKeys,
+      order: keyOrder = defaultPackageJsonOrder,
+    }: SortPackageJsonOptions = context.options[0] ?? {};
+    const order = (char: string) => {
+      const index = alphabet.indexOf(char);
+      return index === -1 ? alphabet.length + char.codePointAt(0)! : index;
+    };
+    const compare = (a: string, b: string) => {
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) {
+          return order(a[i]) - order(b[i]);
+        }
+      }
+      return a.length - b.length;
+    };
+
+    // reports the first member out of order, and fixes the order of all of them
+    const check = (
+      members: JsonMember[],
+      compareMembers: (a: JsonMember, b: JsonMember) => number,
+      key?: string
+    ) => {
+      const unsorted = members.findIndex(
+        (member, i) => i > 0 && compareMembers(members[i - 1], member) > 0
+      );
+      if (unsorted === -1) {
+        return;
+      }
+      context.report({
+        loc: members[unsorted].name.loc,
+        messageId: key ? 'unsorted' : 'unsortedKey',
+        data: {
+          key: key ?? '',
+          name: members[unsorted].name.value,
+          previous: members[unsorted - 1].name.value,
+        },
+        fix: (fixer) => {
+          // members are swapped in place, so commas and whitespace between them (and other members) stay untouched
+          const text = (member: JsonMember) => context.sourceCode.text.slice(...member.range);
+          const sorted = [...members].sort(compareMembers);
+          return members.map((member, i) => fixer.replaceTextRange(member.range, text(sorted[i])));
+        },
+      });
+    };
+
+    return {
+      Document(node: { body: JsonNode }) {
+        if (node.body.type !== 'Object') {
+          return;
+        }
+        const { members } = node.body as JsonObject;
+        check(
+          members.filter((member) => keyOrder.includes(member.name.value)),
+          (a, b) => keyOrder.indexOf(a.name.value) - keyOrder.indexOf(b.name.value)
+        );
+        for (const member of members) {
+          if (keys.includes(member.name.value) && member.value.type === 'Object') {
+            check(
+              (member.value as JsonObject).members,
+              (a, b) => compare(a.name.value, b.name.value),
+              member.name.value
+            );
+          }
+        }
+      },
+    } as Rule.RuleListener;
+  },
+};
+
+type RestrictedGlobal = {
+  name: string;
+  // Reason or an alternative, appended to the default message.
+  message?: string;
+};
+
+const noRestrictedGlobals: Rule.RuleModule = {
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow specified global variables, the same as `no-restricted-globals`, except for `typeof` checks (e.g. `typeof window !== "undefined"`)',
+    },
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          message: { type: 'string' },
+        },
+        required: ['name'],
+        additionalProperties: false,
+      },
+      uniqueItems: true,
+    },
+    messages: {
+      restrictedGlobal: "Unexpected use of '{{name}}'.",
+      restrictedGlobalWithMessage: "Unexpected use of '{{name}}'. {{message}}",
+    },
+  },
+  create(context) {
+    const restricted = new Map(
+      (context.options as RestrictedGlobal[]).map(({ name, message }) => [name, message])
+    );
+
+    const check = (reference: Scope.Reference) => {
+      const { identifier } = reference;
+      const { parent } = identifier as ESTree.Identifier & Rule.NodeParentExtension;
+      // feature detection, e.g. in isomorphic code
+      if (
+        !restricted.has(identifier.name) ||
+        (parent.type === 'UnaryExpression' && parent.operator === 'typeof')
+      ) {
+        return;
+      }
+      const message = restricted.get(identifier.name);
+      context.report({
+        node: identifier,
+        messageId: message ? 'restrictedGlobalWithMessage' : 'restrictedGlobal',
+        data: { name: identifier.name, message: message ?? '' },
+      });
+    };
+
+    return {
+      Program(node) {
+        const scope = context.sourceCode.getScope(node);
+        // references to globals declared in the config (e.g. `languageOptions.globals`) or with comments,
+        // and references to undeclared globals
+        for (const variable of scope.variables) {
+          if (!variable.defs.length) {
+            variable.references.forEach(check);
+          }
+        }
+        scope.through.forEach(check);
+      },
+    };
+  },
+};
+
+/**
+ * In-house eslint plugin with rules, which are not available in community plugins.
+ * Registered as `ovos` in the eslint config, e.g. `ovos/prefer-alias`.
+ */
+export const plugin = {
+  meta: { name: '@ovos-media/coding-standard' },
+  rules: {
+    'default-export-matches-filename': defaultExportMatchesFilename,
+    'no-focused-conditional-tests': noFocusedConditionalTests,
+    'no-restricted-globals': noRestrictedGlobals,
+    'prefer-alias': preferAlias,
+    'sort-package-json': sortPackageJson,
+    'valid-conditional-test-condition': validConditionalTestCondition,
+    'valid-conditional-test-title': validConditionalTestTitle,
+  },
+};
@@ -1,15 +1,64 @@
-import * as prettier from 'prettier';
-
-const config: prettier.Options = {
-  // i know i know, prettier recommends against setting printWidth to more than 80
-  // but how about they change their mindset a bit and allow it to be more flexible
-  // https://github.com/prettier/prettier/issues/4093 (even with proof-of-concept)
-  // https://github.com/prettier/prettier/issues/4160
-  // https://github.com/prettier/prettier/issues/4298
-  // https://github.com/prettier/prettier/issues/4658
-  printWidth: 100,
-  singleQuote: true,
-  trailingComma: 'es5',
+import type { Config } from 'prettier';
+
+type PrettierOptions = {
+  // Number of spaces to use for indentation, or 'tab' to use tabs (default: 2)
+  // Should be the same as `indent` option of the eslint config.
+  indent?: number | 'tab';
 };
 
+/**
+ * Customize the prettier configuration.
+ *
+ * @param {Object} options
+ * @param {number | 'tab'} [options.indent=2] - Number of spaces to use for indentation, or 'tab' to use tabs. Should be the same as `indent` option of the eslint config.
+ * @returns {import('prettier').Config}
+ */
+export function prettier(options: PrettierOptions = {}): Config {
+  const { indent = 2 } = options;
+
+  return {
+    // i know i know, prettier recommends against setting printWidth to more than 80
+    // but how about they change their mindset a bit and allow it to be more flexible
+    // https://github.com/prettier/prettier/issues/4093 (even with proof-of-concept)
+    // https://github.com/prettier/prettier/issues/4160
+    // https://github.com/prettier/prettier/issues/4298
+    // https://github.com/prettier/prettier/issues/4658
+    printWidth: 100,
+    singleQuote: true,
+    trailingComma: 'es5',
+    // keep in sync with `@stylistic/indent` rule
+    ...(indent === 'tab' ? { useTabs: true } : { tabWidth: indent }),
+    overrides: [
+      {
+        // indentation is meaningful in markdown (nested lists, indented code blocks), always use 2 spaces
+        files: ['*.md', '*.mdx'],
+        options: { proseWrap: 'preserve', tabWidth: 2, useTabs: false },
+      },
+      {
+        // tabs are not allowed in yaml
+        files: ['*.yml', '*.yaml'],
+        options: { tabWidth: 2, useTabs: false },
+      },
+      {
+        // trailing commas are allowed in jsonc (e.g. tsconfig.json, vscode settings),
+        // but not all tools reading these files support them
+        files: ['*.json', '*.jsonc', '*.json5'],
+        options: { trailingComma: 'none' },
+      },
+      {
+        // double quotes are the convention in stylesheets
+        files: ['*.less', '*.css'],
+        options: { singleQuote: false },
+      },
+      {
+        // format package.json the same way as npm/yarn do, to avoid reformatting after each install
+        files: ['package.json'],
+        options: { parser: 'json-stringify', tabWidth: 2, useTabs: false },
+      },
+    ],
+  };
+}
+
+const config = prettier();
+
 export default config;
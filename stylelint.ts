@@ -0,0 +1,146 @@
+import type { ClassName } from 'postcss-selector-parser';
+import type { Config, Rule } from 'stylelint';
+
+type StylelintOptions = {
+  // Whether to lint CSS modules in `files` (default: `*.module.css` and `*.module.less` files), which class names are used
+  // as properties of imported styles in components, e.g. `styles.submitButton`. (default: false)
+  // Example: `{ files: ['src/**/*.less'] }`, when all less files are CSS modules
+  cssModules?: boolean | { files?: string[] };
+  // Number of spaces to use for indentation, or 'tab' to use tabs (default: 2)
+  // Should be the same as `indent` option of the prettier config.
+  indent?: number | 'tab';
+  // Whether formatting is handled by prettier. Disables formatting rules. (default: false)
+  prettier?: boolean;
+};
+
+const defaultCssModulesFiles = ['**/*.module.css', '**/*.module.less'];
+
+/**
+ * Customize the stylelint configuration.
+ *
+ * @param {Object} options
+ * @param {boolean | { files?: string[] }} [options.cssModules=false] - Whether to lint CSS modules in `files` (default: `*.module.css` and `*.module.less` files): camelCase class names, as they are used as properties of imported styles in components, and `:global`/`:local` selectors and `composes` allowed.
+ * @param {number | 'tab'} [options.indent=2] - Number of spaces to use for indentation, or 'tab' to use tabs. Should be the same as `indent` option of the prettier config.
+ * @param {boolean} [options.prettier=false] - Whether formatting is handled by prettier. Disables formatting rules.
+ * @returns {import('stylelint').Config}
+ */
+export function stylelint(options: StylelintOptions = {}): Config {
+  const { cssModules = false, indent = 2, prettier = false } = options;
+  // `true` enables the default files
+  const cssModulesFiles =
+    cssModules && ((cssModules !== true && cssModules.files) || defaultCssModulesFiles);
+
+  return {
+    // resolved here, as shared configs and plugins are resolved relative to the config file of the project otherwise
+    extends: [require.resolve('stylelint-config-standard')],
+    ...(!prettier && {
+      plugins: [require.resolve('@stylistic/stylelint-plugin')],
+      rules: {
+        // keep in sync with prettier config, i.e. `tabWidth`/`useTabs`, and double quotes in stylesheets
+        '@stylistic/indentation': indent,
+        '@stylistic/string-quotes': 'double',
+      },
+    }),
+    ignoreFiles: ['build/**', 'coverage/**'],
+    overrides: [
+      {
+        // less syntax (i.a. variables, mixins and guards), with rules of less plugin
+        files: ['**/*.less'],
+        extends: [require.resolve('stylelint-config-standard-less')],
+      },
+      ...(cssModulesFiles
+        ? [
+            {
+              files: cssModulesFiles,
+              plugins: [cssModulesPlugin()],
+              rules: {
+                // class names are used as properties of imported styles, e.g. `styles.submitButton` instead of `styles['submit-button']`
+                'ovos/css-modules-class-name': true,
+                'selector-class-pattern': null,
+                'selector-pseudo-class-no-unknown': [
+                  true,
+                  { ignorePseudoClasses: ['export', 'global', 'import', 'local'] },
+                ],
+                // e.g. `composes: button from './button.module.css'`
+                'property-no-unknown': [true, { ignoreProperties: ['composes'] }],
+                'value-keyword-case': ['lower', { ignoreProperties: ['composes'] }],
+              },
+            },
+          ]
+        : []),
+    ],
+  };
+}
+
+const config = stylelint();
+
+export default config;
+
+/**
+ * Our rule for class names of CSS modules, which must be camelCase, except for classes in `:global` selectors
+ * (e.g. of third-party components), which `selector-class-pattern` cannot tell apart.
+ */
+function cssModulesPlugin() {
+  const { createPlugin, utils }: typeof import('stylelint') = require('stylelint');
+  const parseSelector: typeof import('postcss-selector-parser') = require('postcss-selector-parser');
+  const ruleName = 'ovos/css-modules-class-name';
+  const messages = utils.ruleMessages(ruleName, {
+    expected: (name: string) =>
+      `Expected class selector ".${name}" to be camelCase, as it is used as a property of imported styles (e.g. \`styles.className\`)`,
+  });
+
+  const rule: Rule = (primary) => (root, result) => {
+    if (!utils.validateOptions(result, ruleName, { actual: primary, possible: [true] })) {
+      return;
+    }
+    root.walkRules((node) => {
+      // less mixin calls, e.g. `.mixin();`
+      if ((node as { mixin?: boolean }).mixin) {
+        return;
+      }
+      const check = (className: ClassName) => {
+        // less interpolation (e.g. `.@{prefix}-button`), and mixin definitions with parameters, which are not output as classes
+        const isLess = /@\{|\(/.test(className.value);
+        if (!isLess && !/^[a-z][a-zA-Z0-9]*$/.test(className.value)) {
+          utils.report({
+            ruleName,
+            result,
+            node,
+            message: messages.expected(className.value),
+            index: className.sourceIndex,
+            endIndex: className.sourceIndex + className.toString().trim().length,
+          });
+        }
+      };
+      try {
+        parseSelector((selectors) => {
+          selectors.each((selector) => {
+            // `:global .a .b` makes the rest of the selector global, `:global(.a) .b` only the classes in parentheses
+            let global = false;
+            selector.each((child) => {
+              if (child.type === 'pseudo' && [':global', ':local'].includes(child.value)) {
+                if (!child.nodes.length) {
+                  global = child.value === ':global';
+                } else if (child.value === ':local') {
+                  child.walkClasses(check);
+                }
+              } else if (!global && child.type === 'class') {
+                check(child);
+              } else if (!global && child.type === 'pseudo') {
+                // e.g. `:not(.active)`
+                child.walkClasses(check);
+              }
+            });
+          });
+        }).processSync(node.selector);
+      } catch {
+        // non-standard syntax, e.g. less mixin definitions with guards
+      }
+    });
+  };
+  rule.ruleName = ruleName;
+  rule.messages = messages;
+  rule.meta = { url: 'https://github.com/ovos/coding-standard#stylelintconfigjs' };
+
+  return createPlugin(ruleName, rule);
+}
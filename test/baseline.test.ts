@@ -0,0 +1,75 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { type Baseline, defaultBaselineFile, lintWithBaseline, readBaseline } from '../baseline';
+
+describe('lintWithBaseline', () => {
+  let cwd: string;
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(cwd, file), content);
+  const writeBaseline = (baseline: Baseline) =>
+    write(defaultBaselineFile, JSON.stringify(baseline));
+  const lint = async (patterns = ['.']) => {
+    const { results } = await lintWithBaseline({ cwd, patterns });
+    return Object.fromEntries(
+      results
+        .filter((result) => result.messages.length)
+        .map((result) => [
+          path.relative(cwd, result.filePath),
+          result.messages.map((message) => message.ruleId),
+        ])
+    );
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'coding-standard-baseline-'));
+    write(
+      'eslint.config.js',
+      "module.exports = [{ rules: { 'no-var': 'error', eqeqeq: 'error' } }];\n"
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('reports all errors of a rule, when a file has more of them than recorded', async () => {
+    write('a.js', 'var a = 1;\nvar b = a == 1;\n');
+    writeBaseline({ 'a.js': { 'no-var': 1, eqeqeq: 1 } });
+
+    expect(await lint()).toEqual({ 'a.js': ['no-var', 'no-var'] });
+    expect(readBaseline(path.join(cwd, defaultBaselineFile))).toEqual({
+      'a.js': { 'no-var': 1, eqeqeq: 1 },
+    });
+  });
+
+  it('shrinks the baseline, when a file has less errors than recorded', async () => {
+    write('a.js', 'var a = 1;\n');
+    writeBaseline({ 'a.js': { 'no-var': 3 } });
+
+    expect(await lint()).toEqual({});
+    expect(readBaseline(path.join(cwd, defaultBaselineFile))).toEqual({ 'a.js': { 'no-var': 1 } });
+  });
+
+  it('keeps entries of files, which are not linted', async () => {
+    write('a.js', 'var a = 1;\n');
+    write('b.js', 'const b = 1;\n');
+    writeBaseline({ 'a.js': { 'no-var': 1 }, 'b.js': { 'no-var': 2 } });
+
+    expect(await lint(['a.js'])).toEqual({});
+    expect(readBaseline(path.join(cwd, defaultBaselineFile))).toEqual({
+      'a.js': { 'no-var': 1 },
+      'b.js': { 'no-var': 2 },
+    });
+  });
+
+  it('removes entries of fixed and removed files', async () => {
+    write('a.js', 'const a = 1;\n');
+    writeBaseline({ 'a.js': { 'no-var': 2 }, 'removed.js': { 'no-var': 1 } });
+
+    expect(await lint()).toEqual({});
+    expect(readBaseline(path.join(cwd, defaultBaselineFile))).toEqual({});
+  });
+});
@@ -0,0 +1,57 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { check } from '../check';
+
+describe('check', () => {
+  let cwd: string;
+  const git = (...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf8' });
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(cwd, file), content);
+  const read = (file: string) => fs.readFileSync(path.join(cwd, file), 'utf8');
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'coding-standard-check-'));
+    git('init', '--quiet');
+    write('eslint.config.js', "module.exports = [{ rules: { 'no-var': 'error' } }];\n");
+    write('.prettierrc.json', '{ "singleQuote": true }\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('checks staged content of partially staged files', async () => {
+    write('partial.js', "var a  =  'a';\n");
+    git('add', 'partial.js');
+    write('partial.js', "const a = 'a';\n");
+
+    const { files, unformatted, results } = await check({ cwd, staged: true });
+
+    expect(files).toEqual(['partial.js']);
+    expect(unformatted).toEqual(['partial.js']);
+    expect(results.map((result) => result.messages.map((message) => message.ruleId))).toEqual([
+      ['no-var'],
+    ]);
+  });
+
+  it('stages fixes of staged files, and does not fix partially staged files', async () => {
+    write('staged.js', "var a  =  'a';\n");
+    write('partial.js', "var b = 'b';\n");
+    git('add', 'staged.js', 'partial.js');
+    write('partial.js', "var b = 'b';\nexport { b };\n");
+
+    const { unformatted, results, unstaged } = await check({ cwd, staged: true, fix: true });
+
+    expect(unformatted).toEqual(['staged.js']);
+    expect(unstaged).toEqual(['partial.js']);
+    expect(git('show', ':staged.js')).toBe("let a = 'a';\n");
+    expect(read('partial.js')).toBe("var b = 'b';\nexport { b };\n");
+    expect(results.find((result) => result.errorCount)?.filePath).toBe(
+      path.join(cwd, 'partial.js')
+    );
+  });
+});
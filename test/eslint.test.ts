@@ -0,0 +1,195 @@
+import { ESLint, type Linter } from 'eslint';
+import { rules as prettierConflictingRules } from 'eslint-config-prettier';
+import { describe, expect, it } from 'vitest';
+
+import customize from '../eslint';
+
+// rules enabled in any block of the config
+function enabledRules(config: Linter.Config[]) {
+  return config.flatMap((block) =>
+    Object.entries(block.rules ?? {})
+      .filter(([, entry]) => ![0, 'off'].includes(Array.isArray(entry) ? entry[0] : entry))
+      .map(([rule]) => rule)
+  );
+}
+
+// final severity of a rule for a file, which does not need to exist
+async function severityForFile(config: Linter.Config[], file: string, rule: string) {
+  const eslint = new ESLint({ overrideConfigFile: true, overrideConfig: config });
+  const { rules = {} } = await eslint.calculateConfigForFile(file);
+  const entry = rules[rule];
+  return Array.isArray(entry) ? entry[0] : entry;
+}
+
+describe('typeChecked option', () => {
+  const rule = '@typescript-eslint/no-floating-promises';
+
+  it('enables type-aware rules only with the option, in ci profile', () => {
+    expect(enabledRules(customize())).not.toContain(rule);
+    expect(enabledRules(customize({ typeChecked: 'recommended' }))).toContain(rule);
+    expect(enabledRules(customize({ typeChecked: 'strict' }))).toContain(
+      '@typescript-eslint/no-unnecessary-condition'
+    );
+    expect(
+      enabledRules(customize({ typeChecked: 'recommended', profile: 'editor' }))
+    ).not.toContain(rule);
+  });
+
+  it('turns off type-aware rules in files not included in tsconfig', async () => {
+    const config = customize({ typeChecked: 'recommended', disableTypeChecked: ['scripts/*.ts'] });
+
+    expect(await severityForFile(config, 'src/index.ts', rule)).toBe(2);
+    expect(await severityForFile(config, 'scripts/seed.ts', rule)).toBe(0);
+    expect(await severityForFile(config, 'vite.config.ts', rule)).toBe(0);
+    expect(await severityForFile(config, 'vitest.setup.ts', rule)).toBe(0);
+  });
+});
+
+describe('prettier option', () => {
+  it('turns off all rules conflicting with prettier', () => {
+    const config = customize({ prettier: true, react: true });
+    const conflicting = enabledRules(config).filter((rule) => rule in prettierConflictingRules);
+
+    expect([...new Set(conflicting)]).toEqual([]);
+  });
+
+  it('keeps formatting rules without prettier', () => {
+    const rules = enabledRules(customize({ react: true }));
+
+    expect(customize.formattingRuleNames.filter((rule) => !rules.includes(rule))).toEqual([]);
+  });
+});
+
+describe('severity option', () => {
+  // final severity of a rule, i.e. in the last block configuring it
+  const severityOf = (config: Linter.Config[], rule: string) => {
+    const entry = config.findLast((block) => block.rules?.[rule])?.rules?.[rule];
+    return Array.isArray(entry) ? entry[0] : entry;
+  };
+
+  it('sets severity of listed categories, and keeps severity of other rules', () => {
+    const config = customize({ playwright: true, severity: { stylistic: 'warn' } });
+
+    expect(severityOf(config, '@stylistic/semi')).toBe('warn');
+    expect(severityOf(config, 'eqeqeq')).toBe('error');
+    expect(severityOf(config, 'playwright/no-wait-for-timeout')).toBe('warn');
+  });
+
+  it('sets severity of all rules', () => {
+    const config = customize({ severity: 'warn' });
+
+    expect(severityOf(config, 'eqeqeq')).toBe('warn');
+    expect(severityOf(config, 'import/order')).toBe('warn');
+  });
+});
+
+describe('strict option', () => {
+  it('reports problems of strict files with the pragma once', async () => {
+    const eslint = new ESLint({
+      overrideConfigFile: true,
+      overrideConfig: customize({
+        profile: 'editor',
+        strict: { files: ['src/strict/**'], pragma: true },
+      }),
+    });
+    const code = '// @ovos-strict\nexport const value: any = 1;\n';
+    const ruleIds = async (filePath: string) => {
+      const [result] = await eslint.lintText(code, { filePath });
+      return result.messages.map((message) => message.ruleId);
+    };
+
+    expect(await ruleIds('src/strict/value.ts')).toEqual(['@typescript-eslint/no-explicit-any']);
+    expect(await ruleIds('src/value.ts')).toEqual(['ovos-strict/no-explicit-any']);
+  });
+});
+
+describe('tests options', () => {
+  const ruleIds = async (
+    options: Parameters<typeof customize>[0],
+    filePath: string,
+    code: string
+  ) => {
+    const eslint = new ESLint({
+      overrideConfigFile: true,
+      overrideConfig: customize({ profile: 'editor', ...options }),
+    });
+    const [result] = await eslint.lintText(code, { filePath });
+    return result.messages.map((message) => message.ruleId);
+  };
+
+  it('passes test globals and block functions to vitest', async () => {
+    const code =
+      "import { expect } from 'vitest';\nrunif(true)('works', () => {\n  expect(seed).toBe(1);\n});\n";
+
+    expect(
+      await ruleIds(
+        { vitest: true, testGlobals: { seed: 'readonly' }, testBlockFunctions: ['runif'] },
+        'test/users.test.js',
+        code
+      )
+    ).toEqual(['no-undef', 'ovos/valid-conditional-test-condition']);
+    expect(await ruleIds({ vitest: true }, 'test/users.test.js', code)).toEqual([
+      'no-undef',
+      'vitest/no-standalone-expect',
+      'no-undef',
+    ]);
+  });
+
+  it('applies mocha blocks only to test files', async () => {
+    const options = { mocha: true, testFiles: ['checks/**/*.js'] };
+    const code = "it('works', () => {\n  DB.query();\n});\n";
+
+    expect(await ruleIds(options, 'checks/users.js', code)).toEqual([
+      'mocha/no-global-tests',
+      'mocha/no-mocha-arrows',
+    ]);
+    expect(await ruleIds(options, 'test/users.test.js', code)).toEqual(['no-undef', 'no-undef']);
+  });
+});
+
+describe('fileNaming option', () => {
+  // rules reported for a file with given name, which does not need to exist
+  const lintFileName = async (file: string, options: Parameters<typeof customize>[0] = {}) => {
+    const eslint = new ESLint({
+      overrideConfigFile: true,
+      // type information is not needed for file names
+      overrideConfig: customize({ profile: 'editor', ...options }),
+    });
+    const [result] = await eslint.lintText('export {};\n', { filePath: file });
+    return result.messages.map((message) => message.ruleId);
+  };
+
+  it('reports ts modules not in camelCase or PascalCase', async () => {
+    for (const file of ['some-module.ts', 'src/some-module.ts', 'src/utils/some-module.mts']) {
+      expect(await lintFileName(file, { fileNaming: true })).toEqual([
+        'check-file/filename-naming-convention',
+      ]);
+    }
+    expect(await lintFileName('src/someModule.ts', { fileNaming: true })).toEqual([]);
+  });
+
+  it('does not report declaration files and migrations', async () => {
+    expect(await lintFileName('src/vite-env.d.ts', { fileNaming: true })).toEqual([]);
+    expect(await lintFileName('global-types.d.mts', { fileNaming: true })).toEqual([]);
+    expect(
+      await lintFileName('src/migrations/20240131120000_add_users.ts', { fileNaming: true })
+    ).toEqual([]);
+  });
+
+  it('checks only react components, hooks and less files without the option', async () => {
+    expect(await lintFileName('src/some-module.ts')).toEqual([]);
+    expect(await lintFileName('src/some-component.tsx')).toEqual([
+      'check-file/filename-naming-convention',
+    ]);
+  });
+
+  it('checks default exports of react components only with the option', () => {
+    const rule = 'ovos/default-export-matches-filename';
+
+    expect(enabledRules(customize({ react: true }))).not.toContain(rule);
+    expect(enabledRules(customize({ react: true, fileNaming: true }))).toContain(rule);
+    expect(
+      enabledRules(customize({ react: true, fileNaming: { defaultExport: false } }))
+    ).not.toContain(rule);
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { diffConfigs, explain, renderDiffMarkdown } from '../explain';
+import { version } from '../package.json';
+
+describe('explain', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'coding-standard-explain-'));
+    fs.writeFileSync(
+      path.join(cwd, 'eslint.config.js'),
+      `module.exports = [
+  { ignores: ['dist/**'] },
+  { name: 'base', rules: { 'no-var': 'error', eqeqeq: ['error', 'always'] } },
+  { files: ['**/*.ts'], rules: { 'no-var': 'warn' } },
+];
+`
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('lists blocks applying to a file, and blocks configuring each rule', async () => {
+    expect(await explain('src/index.ts', { cwd })).toEqual({
+      blocks: ['base', '#2'],
+      rules: {
+        eqeqeq: { severity: 'error', options: ['always'], blocks: ['base'] },
+        'no-var': { severity: 'warn', options: [], blocks: ['base', '#2'] },
+      },
+    });
+    expect((await explain('src/index.js', { cwd })).blocks).toEqual(['base']);
+  });
+
+  it('explains no blocks for ignored files', async () => {
+    expect(await explain('dist/index.js', { cwd })).toEqual({ blocks: [], rules: {} });
+  });
+});
+
+describe('diffConfigs', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'coding-standard-diff-'));
+    fs.writeFileSync(path.join(cwd, 'package.json'), '{ "name": "app" }\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('compares configs of two option sets', async () => {
+    const diff = await diffConfigs({
+      cwd,
+      files: ['src/index.ts'],
+      from: { options: { profile: 'editor' } },
+      to: { options: { profile: 'editor', severity: { stylistic: 'warn' } } },
+    });
+
+    expect(diff.from).toBe(`${version} with \`{"profile":"editor"}\``);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toContainEqual({
+      rule: '@stylistic/array-bracket-spacing',
+      before: { severity: 'error', options: ['never'] },
+      after: { severity: 'warn', options: ['never'] },
+      files: ['src/index.ts'],
+    });
+    expect(diff.changed.map((change) => change.rule)).not.toContain('eqeqeq');
+    expect(renderDiffMarkdown(diff)).toContain(
+      '| `@stylistic/array-bracket-spacing` | `["error","never"]` | `["warn","never"]` | `src/index.ts` |'
+    );
+  });
+
+  it('renders a diff without changes', async () => {
+    const diff = await diffConfigs({ cwd, files: ['src/index.ts'] });
+
+    expect(renderDiffMarkdown(diff)).toBe(
+      `## ESLint config changes\n\nFrom ${version} to ${version}.\n\nNo rules changed.\n`
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { ESLint } from 'eslint';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import customize from '../eslint';
+
+describe('graphql option', () => {
+  const initialCwd = process.cwd();
+  let cwd: string;
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(cwd, file)), { recursive: true });
+    fs.writeFileSync(path.join(cwd, file), content);
+  };
+  // rule ids reported per file, relative to the project
+  const lint = async () => {
+    const eslint = new ESLint({
+      cwd,
+      overrideConfigFile: true,
+      overrideConfig: customize({ profile: 'editor', graphql: { schema: ['schema/*.graphql'] } }),
+    });
+    const results = await eslint.lintFiles(['.']);
+    return Object.fromEntries(
+      results.map((result) => [
+        path.relative(cwd, result.filePath),
+        result.messages.map((message) => message.ruleId),
+      ])
+    );
+  };
+
+  beforeAll(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'coding-standard-graphql-'));
+    // graphql-config resolves globs of the schema and documents relative to the working directory
+    process.chdir(cwd);
+    write(
+      'schema/user.graphql',
+      'type Query {\n  user(id: ID!): User\n}\n\ntype User {\n  id: ID!\n  first_name: String\n  Name: String @deprecated(reason: "use first_name")\n}\n'
+    );
+  });
+
+  afterAll(() => {
+    process.chdir(initialCwd);
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('checks schema, operations in graphql files and tagged templates', async () => {
+    write(
+      'queries/user.graphql',
+      'query User($id: ID!) {\n  user(id: $id) {\n    id\n    Name\n  }\n}\n'
+    );
+    write(
+      'queries.ts',
+      "import { gql } from 'graphql-tag';\n\nexport const query = gql`\n  query UserEmail($id: ID!) {\n    user(id: $id) {\n      id\n      email\n    }\n  }\n`;\n"
+    );
+
+    expect(await lint()).toEqual({
+      // snake_cased fields are allowed, while PascalCase is not
+      'schema/user.graphql': ['@graphql-eslint/naming-convention'],
+      'queries/user.graphql': ['@graphql-eslint/no-deprecated'],
+      'queries.ts': ['@graphql-eslint/fields-on-correct-type'],
+    });
+  });
+});
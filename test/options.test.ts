@@ -0,0 +1,56 @@
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { validateOptions } from '../options';
+
+describe('validateOptions', () => {
+  it.each([
+    [{ severity: { stylstic: 'warn' } }, "Did you mean 'severity.stylistic'?"],
+    [{ fileNaming: { filez: {} } }, "Did you mean 'fileNaming.files'?"],
+    [{ playwright: { file: ['e2e'] } }, "Did you mean 'playwright.files'?"],
+    [{ storybook: { files: 'stories' } }, "Option 'storybook.files' should be an array"],
+  ])('reports problems of nested options in %j', (options, problem) => {
+    expect(() => validateOptions(options)).toThrow(problem);
+  });
+
+  it('reports a value not matching any type of an option', () => {
+    expect(() => validateOptions({ severity: 'off' })).toThrow(
+      "Option 'severity' should be 'warn' | 'error' or an object, received 'off' (string)."
+    );
+  });
+
+  it('requires a local graphql schema', () => {
+    expect(() => validateOptions({ graphql: { schema: [] } })).toThrow(
+      "Option 'graphql.schema' is required, to validate graphql operations."
+    );
+    expect(() =>
+      validateOptions({ graphql: { schema: ['https://api.example.com/graphql'] } })
+    ).toThrow('only local schema files are supported');
+  });
+
+  describe('globs matching files', () => {
+    const tsconfigRootDir = path.resolve(__dirname, '..');
+
+    it('checks globs in tsconfigRootDir', () => {
+      expect(() =>
+        validateOptions({ tsconfigRootDir, disableTypeChecked: ['scripts/*.ts'] })
+      ).toThrow(
+        `Option 'disableTypeChecked' contains 'scripts/*.ts', which does not match any files in '${tsconfigRootDir}'.`
+      );
+      expect(() =>
+        validateOptions({ tsconfigRootDir, graphql: { schema: ['test/*.ts'] } })
+      ).not.toThrow();
+    });
+
+    it('does not check globs without tsconfigRootDir', () => {
+      expect(() => validateOptions({ disableTypeChecked: ['scripts/*.ts'] })).not.toThrow();
+    });
+
+    it('reports a relative tsconfigRootDir', () => {
+      expect(() => validateOptions({ tsconfigRootDir: '.' })).toThrow(
+        "Option 'tsconfigRootDir' should be an absolute path"
+      );
+    });
+  });
+});
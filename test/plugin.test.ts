@@ -0,0 +1,424 @@
+import path from 'node:path';
+
+import json from '@eslint/json';
+import { RuleTester } from 'eslint';
+import { describe, it } from 'vitest';
+
+import { plugin } from '../plugin';
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.itOnly = it.only;
+
+const ruleTester = new RuleTester();
+
+describe('prefer-alias', () => {
+  // aliases are resolved to absolute paths in the config
+  const root = path.resolve('/project');
+  const options = [
+    {
+      aliases: {
+        '@/*': path.join(root, 'src/*'),
+        config: path.join(root, 'src/config.ts'),
+        // package.json `imports`, with the extension in the target
+        '#utils/*': path.join(root, 'src/utils/*.js'),
+      },
+    },
+  ];
+  const filename = path.join(root, 'src/features/users/list/UserList.ts');
+
+  ruleTester.run('prefer-alias', plugin.rules['prefer-alias'], {
+    valid: [
+      // in the current directory, and up to `maxParentLevels` parent directories
+      "import { columns } from './columns';",
+      "import { columns } from '.';",
+      "import { User } from '../../types';",
+      "const { format } = require('../../format');",
+      "import('./columns');",
+      // outside of aliased directories
+      "import readme from '../../../../../README.md';",
+      // `#utils/*` targets js files only
+      {
+        code: "import { debounce } from '../../../utils/debounce.ts';",
+        options: [{ aliases: { '#utils/*': path.join(root, 'src/utils/*.js') } }],
+      },
+      {
+        code: "import { api } from '../../../api';",
+        options: [{ ...options[0], maxParentLevels: 3 }],
+      },
+    ].map((test) => ({ options, filename, ...(typeof test === 'string' ? { code: test } : test) })),
+    invalid: [
+      {
+        code: "import { api } from '../../../api';",
+        output: "import { api } from '@/api';",
+        errors: [{ messageId: 'preferAlias', data: { alias: '@/api', source: '../../../api' } }],
+      },
+      {
+        code: 'export * from "../../../components/Button";',
+        output: 'export * from "@/components/Button";',
+        errors: [{ messageId: 'preferAlias' }],
+      },
+      {
+        code: "import config from '../../../config';",
+        output: "import config from 'config';",
+        errors: [
+          { messageId: 'preferAlias', data: { alias: 'config', source: '../../../config' } },
+        ],
+      },
+      {
+        code: "import { debounce } from '../../../utils/debounce.js';",
+        output: "import { debounce } from '#utils/debounce';",
+        errors: [
+          {
+            messageId: 'preferAlias',
+            data: { alias: '#utils/debounce', source: '../../../utils/debounce.js' },
+          },
+        ],
+      },
+      {
+        code: "const { api } = require('../../../api');",
+        output: "const { api } = require('@/api');",
+        errors: [{ messageId: 'preferAlias' }],
+      },
+      {
+        code: "const Page = lazy(() => import('../../../pages/Page'));",
+        output: "const Page = lazy(() => import('@/pages/Page'));",
+        errors: [{ messageId: 'preferAlias' }],
+      },
+      {
+        code: "import { api } from '../../api';",
+        output: "import { api } from '@/features/api';",
+        options: [{ ...options[0], maxParentLevels: 1 }],
+        errors: [{ messageId: 'preferAlias' }],
+      },
+    ].map((test) => ({ options, filename, ...test })),
+  });
+});
+
+ruleTester.run('default-export-matches-filename', plugin.rules['default-export-matches-filename'], {
+  valid: [
+    { code: 'export default class Button {}', filename: 'src/Button.tsx' },
+    { code: 'export default function Button() {}', filename: 'src/Button/index.tsx' },
+    { code: 'const Button = () => null; export default memo(Button);', filename: 'src/Button.tsx' },
+    // anonymous default exports have no name to compare
+    { code: 'export default () => null;', filename: 'src/Button.tsx' },
+    { code: 'export default class {}', filename: 'src/Button/index.tsx' },
+    // re-exported default, with the name known only in the other module
+    { code: "export { default } from './Button';", filename: 'src/Button/index.tsx' },
+    {
+      code: 'const Button = () => null; export { Button as default };',
+      filename: 'src/Button.tsx',
+    },
+    // not a component: camelCase files, files with middle extensions and index files of camelCase folders
+    { code: 'export default class Store {}', filename: 'src/useStore.tsx' },
+    { code: 'export default { title: "Buttons" };', filename: 'src/Button.stories.tsx' },
+    { code: 'export default function App() {}', filename: 'src/index.tsx' },
+  ],
+  invalid: [
+    {
+      code: 'export default class Btn {}',
+      filename: 'src/Button.tsx',
+      errors: [{ messageId: 'mismatch', data: { name: 'Btn', expected: 'Button' } }],
+    },
+    {
+      code: 'export default function Btn() {}',
+      filename: 'src/Button/index.tsx',
+      errors: [{ messageId: 'mismatch', data: { name: 'Btn', expected: 'Button' } }],
+    },
+    {
+      code: 'const Btn = () => null; export default memo(Btn);',
+      filename: 'src/Button.tsx',
+      errors: [{ messageId: 'mismatch', data: { name: 'Btn', expected: 'Button' } }],
+    },
+    {
+      code: 'const Btn = () => null; export { Btn as default };',
+      filename: 'src/Button.tsx',
+      errors: [{ messageId: 'mismatch', data: { name: 'Btn', expected: 'Button' } }],
+    },
+    {
+      code: "export { Btn as default } from './Btn';",
+      filename: 'src/Button/index.tsx',
+      errors: [{ messageId: 'mismatch', data: { name: 'Btn', expected: 'Button' } }],
+    },
+  ],
+});
+
+ruleTester.run('no-focused-conditional-tests', plugin.rules['no-focused-conditional-tests'], {
+  valid: [
+    "itif(isEnabled)('works', () => {});",
+    "testskipif(isCI).skip('works', () => {});",
+    "it.only('works', () => {});",
+    // not a conditional test helper, unless configured
+    "runif(isEnabled).only('works', () => {});",
+  ],
+  invalid: [
+    {
+      code: "itif.only(isEnabled)('works', () => {});",
+      errors: [
+        {
+          messageId: 'focusedTest',
+          data: { name: 'itif' },
+          suggestions: [{ messageId: 'removeOnly', output: "itif(isEnabled)('works', () => {});" }],
+        },
+      ],
+    },
+    {
+      code: "itif(isEnabled).only('works', () => {});",
+      errors: [
+        {
+          messageId: 'focusedTest',
+          data: { name: 'itif' },
+          suggestions: [{ messageId: 'removeOnly', output: "itif(isEnabled)('works', () => {});" }],
+        },
+      ],
+    },
+    {
+      code: "testskipif['only'](isCI)('works', () => {});",
+      errors: [
+        {
+          messageId: 'focusedTest',
+          data: { name: 'testskipif' },
+          suggestions: [
+            { messageId: 'removeOnly', output: "testskipif(isCI)('works', () => {});" },
+          ],
+        },
+      ],
+    },
+    {
+      code: "runif(isEnabled).only('works', () => {});",
+      options: [{ functions: ['runif'] }],
+      errors: [
+        {
+          messageId: 'focusedTest',
+          data: { name: 'runif' },
+          suggestions: [
+            { messageId: 'removeOnly', output: "runif(isEnabled)('works', () => {});" },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+ruleTester.run(
+  'valid-conditional-test-condition',
+  plugin.rules['valid-conditional-test-condition'],
+  {
+    valid: [
+      "itif(isEnabled)('works', () => {});",
+      "itif(process.env.CI === 'true')('works', () => {});",
+      "testif(hasFeature('payments') && !isCI)('works', () => {});",
+      "itif.only(isEnabled)('works', () => {});",
+      // side effects in functions are not evaluated with the condition
+      "itif([1, 2].some((n) => n++ > 1))('works', () => {});",
+      // not a conditional test helper
+      "it(true)('works', () => {});",
+    ],
+    invalid: [
+      {
+        code: "itif()('works', () => {});",
+        errors: [{ messageId: 'missingCondition', data: { name: 'itif' } }],
+      },
+      {
+        code: "itif.only()('works', () => {});",
+        errors: [{ messageId: 'missingCondition', data: { name: 'itif' } }],
+      },
+      ...['true', "'yes'", '!0', 'undefined', '[]', '`ci`', '1 + 1', '() => isCI'].map(
+        (condition) => ({
+          code: `itif(${condition})('works', () => {});`,
+          errors: [{ messageId: 'constantCondition' as const, data: { name: 'itif' } }],
+        })
+      ),
+      {
+        code: "itif(count++ > 1)('works', () => {});",
+        errors: [{ messageId: 'sideEffect', data: { name: 'itif' }, column: 6, endColumn: 13 }],
+      },
+      {
+        code: "testskipif((enabled = isCI))('works', () => {});",
+        errors: [{ messageId: 'sideEffect', data: { name: 'testskipif' } }],
+      },
+      {
+        code: "itskipif(delete config.ci)('works', () => {});",
+        errors: [{ messageId: 'sideEffect', data: { name: 'itskipif' } }],
+      },
+      {
+        code: "it('works', async () => { itif(await isEnabled())('nested', () => {}); });",
+        errors: [{ messageId: 'sideEffect', data: { name: 'itif' } }],
+      },
+      {
+        code: "runif(true)('works', () => {});",
+        options: [{ functions: ['runif'] }],
+        errors: [{ messageId: 'constantCondition', data: { name: 'runif' } }],
+      },
+    ],
+  }
+);
+
+ruleTester.run('valid-conditional-test-title', plugin.rules['valid-conditional-test-title'], {
+  valid: [
+    "itif(isEnabled)('works', () => {});",
+    'itif(isEnabled)(`works`, () => {});',
+    "testif(isEnabled)('testing works', () => {});",
+    "itif(isEnabled)('item is listed', () => {});",
+    // titles which are not static strings are allowed
+    'itif(isEnabled)(title, () => {});',
+    'itif(isEnabled)(`${name} works`, () => {});',
+    // not a conditional test helper
+    "it(' works ', () => {});",
+  ],
+  invalid: [
+    {
+      code: "itif(isEnabled)('', () => {});",
+      errors: [{ messageId: 'emptyTitle', data: { name: 'itif' } }],
+    },
+    {
+      code: "itif(isEnabled)('   ', () => {});",
+      errors: [{ messageId: 'emptyTitle', data: { name: 'itif' } }],
+    },
+    {
+      code: 'testif(isEnabled)(``, () => {});',
+      errors: [{ messageId: 'emptyTitle', data: { name: 'testif' } }],
+    },
+    {
+      code: "itif(isEnabled)(' works ', () => {});",
+      output: "itif(isEnabled)('works', () => {});",
+      errors: [{ messageId: 'accidentalSpace', data: { name: 'itif' } }],
+    },
+    {
+      code: 'itif(isEnabled)(` works`, () => {});',
+      output: 'itif(isEnabled)(`works`, () => {});',
+      errors: [{ messageId: 'accidentalSpace', data: { name: 'itif' } }],
+    },
+    {
+      code: "itif(isEnabled).only('works  ', () => {});",
+      output: "itif(isEnabled).only('works', () => {});",
+      errors: [{ messageId: 'accidentalSpace', data: { name: 'itif' } }],
+    },
+    {
+      code: "itif(isEnabled)('it works', () => {});",
+      output: "itif(isEnabled)('works', () => {});",
+      errors: [{ messageId: 'duplicatePrefix', data: { name: 'itif', prefix: 'it' } }],
+    },
+    {
+      code: "itskipif(isCI)('It works', () => {});",
+      output: "itskipif(isCI)('works', () => {});",
+      errors: [{ messageId: 'duplicatePrefix', data: { name: 'itskipif', prefix: 'it' } }],
+    },
+    {
+      code: "testskipif(isCI)('test works', () => {});",
+      output: "testskipif(isCI)('works', () => {});",
+      errors: [{ messageId: 'duplicatePrefix', data: { name: 'testskipif', prefix: 'test' } }],
+    },
+    {
+      code: "runif(isCI)(' works', () => {});",
+      output: "runif(isCI)('works', () => {});",
+      options: [{ functions: ['runif'] }],
+      errors: [{ messageId: 'accidentalSpace', data: { name: 'runif' } }],
+    },
+  ],
+});
+
+ruleTester.run('no-restricted-globals', plugin.rules['no-restricted-globals'], {
+  valid: [
+    {
+      code: "const isBrowser = typeof window !== 'undefined';",
+      options: [{ name: 'window' }],
+    },
+    {
+      code: "if (typeof process === 'object' && typeof document === 'undefined') {}",
+      options: [{ name: 'process' }, { name: 'document' }],
+    },
+    // local variables and properties
+    {
+      code: 'function render(window) { return window.location; }',
+      options: [{ name: 'window' }],
+    },
+    {
+      code: 'config.process = true;',
+      options: [{ name: 'process' }],
+    },
+  ],
+  invalid: [
+    {
+      code: 'window.location.reload();',
+      options: [{ name: 'window' }],
+      errors: [{ messageId: 'restrictedGlobal', data: { name: 'window' } }],
+    },
+    {
+      code: "const isBrowser = typeof window !== 'undefined' && window.innerWidth > 768;",
+      options: [{ name: 'window', message: "'window' is not available in 'shared' environment." }],
+      errors: [
+        {
+          messageId: 'restrictedGlobalWithMessage',
+          data: {
+            name: 'window',
+            message: "'window' is not available in 'shared' environment.",
+          },
+          column: 52,
+        },
+      ],
+    },
+    {
+      // globals declared in the config are restricted too
+      code: 'const env = process.env.NODE_ENV;',
+      options: [{ name: 'process' }],
+      languageOptions: { globals: { process: 'readonly' } },
+      errors: [{ messageId: 'restrictedGlobal', data: { name: 'process' } }],
+    },
+  ],
+});
+
+const jsonRuleTester = new RuleTester({ plugins: { json }, language: 'json/json' });
+const pkg = (object: object) => `${JSON.stringify(object, null, 2)}\n`;
+
+jsonRuleTester.run('sort-package-json', plugin.rules['sort-package-json'], {
+  valid: [
+    pkg({
+      name: 'app',
+      version: '1.0.0',
+      private: true,
+      scripts: { test: 'vitest', build: 'vite build' },
+      dependencies: { '@scope/b': '1', a: '1', b: '1' },
+      devDependencies: { eslint: '9' },
+    }),
+    // unknown keys stay in place
+    pkg({ name: 'app', custom: {}, version: '1.0.0', 'lint-staged': {} }),
+    { code: pkg({ dependencies: { b: '1', a: '1' } }), options: [{ keys: [] }] },
+  ],
+  invalid: [
+    {
+      code: pkg({ version: '1.0.0', scripts: {}, name: 'app', custom: {}, description: '' }),
+      output: pkg({ name: 'app', version: '1.0.0', description: '', custom: {}, scripts: {} }),
+      errors: [{ messageId: 'unsortedKey', data: { name: 'name', previous: 'scripts' }, line: 4 }],
+    },
+    {
+      code: pkg({ name: 'app', dependencies: { b: '1', '@scope/b': '1', a: '1' } }),
+      output: pkg({ name: 'app', dependencies: { '@scope/b': '1', a: '1', b: '1' } }),
+      options: [{ alphabet: '@/abcdefghijklmnopqrstuvwxyz' }],
+      errors: [
+        {
+          messageId: 'unsorted',
+          data: { key: 'dependencies', name: '@scope/b', previous: 'b' },
+          line: 5,
+          column: 5,
+        },
+      ],
+    },
+    {
+      // scripts are sorted only when listed in `keys`, as their order is meaningful (e.g. `pretest` before `test`)
+      code: pkg({
+        scripts: { test: 'vitest', build: 'vite build' },
+        devDependencies: { b: '1', a: '1' },
+      }),
+      output: pkg({
+        scripts: { build: 'vite build', test: 'vitest' },
+        devDependencies: { a: '1', b: '1' },
+      }),
+      options: [{ keys: ['scripts', 'devDependencies'] }],
+      errors: [
+        { messageId: 'unsorted', data: { key: 'scripts', name: 'build', previous: 'test' } },
+        { messageId: 'unsorted', data: { key: 'devDependencies', name: 'a', previous: 'b' } },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,52 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import * as prettierApi from 'prettier';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { prettier as defaultConfig } from '../index';
+import { prettier } from '../prettier';
+
+describe('prettier config', () => {
+  let cwd: string;
+  // formats a file with the config of the project, i.a. with overrides matching the file
+  const format = async (file: string, source: string) => {
+    const filepath = path.join(cwd, file);
+    const config = await prettierApi.resolveConfig(filepath, { editorconfig: false });
+    return prettierApi.format(source, { ...config, filepath });
+  };
+
+  beforeAll(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'coding-standard-prettier-'));
+    fs.writeFileSync(
+      path.join(cwd, '.prettierrc.json'),
+      JSON.stringify(prettier({ indent: 'tab' }))
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('is exported with default options, for backward compatibility', () => {
+    expect(defaultConfig).toEqual(prettier());
+    expect(defaultConfig).toMatchObject({ printWidth: 100, singleQuote: true, tabWidth: 2 });
+  });
+
+  it('indents with tabs, except in languages where indentation is meaningful', async () => {
+    expect(await format('index.ts', 'if (a) {\n  b();\n}\n')).toBe('if (a) {\n\tb();\n}\n');
+    expect(await format('README.md', '- a\n    - b\n')).toBe('- a\n  - b\n');
+    expect(await format('config.yml', 'a:\n    b: 1\n')).toBe('a:\n  b: 1\n');
+  });
+
+  it('formats json, stylesheets and package.json by their conventions', async () => {
+    expect(await format('settings.jsonc', '{\n  "a": [1,]\n}\n')).toBe('{\n\t"a": [1]\n}\n');
+    expect(await format('styles.less', ".a { content: 'a'; }\n")).toBe(
+      '.a {\n\tcontent: "a";\n}\n'
+    );
+    expect(await format('package.json', '{ "files": ["a"] }\n')).toBe(
+      '{\n  "files": [\n    "a"\n  ]\n}\n'
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import stylelintApi from 'stylelint';
+import { describe, expect, it } from 'vitest';
+
+import { stylelint } from '../stylelint';
+
+describe('stylelint config', () => {
+  // rule ids and texts of warnings for a stylesheet, which does not need to exist
+  const lint = async (code: string, codeFilename: string, config = stylelint()) => {
+    const {
+      results: [result],
+    } = await stylelintApi.lint({ code, codeFilename, config });
+    return result.warnings.map(({ rule, text }) => ({ rule, text }));
+  };
+
+  describe('cssModules option', () => {
+    const config = stylelint({ cssModules: true });
+
+    it('reports class names of css modules not in camelCase', async () => {
+      expect(
+        await lint('.submit-button {\n  color: red;\n}\n', 'Form.module.less', config)
+      ).toEqual([
+        {
+          rule: 'ovos/css-modules-class-name',
+          text: 'Expected class selector ".submit-button" to be camelCase, as it is used as a property of imported styles (e.g. `styles.className`) (ovos/css-modules-class-name)',
+        },
+      ]);
+    });
+
+    it('allows camelCase, global classes and composes', async () => {
+      const code = `.submitButton {
+  composes: button from "./Button.module.css";
+}
+
+.submitButton :global(.ant-btn) {
+  color: red;
+}
+
+:global .ant-form .ant-input {
+  color: red;
+}
+`;
+
+      expect(await lint(code, 'Form.module.less', config)).toEqual([]);
+    });
+
+    it('checks only css modules', async () => {
+      const code = '.submit-button {\n  color: red;\n}\n';
+
+      expect(await lint(code, 'styles.less', config)).toEqual([]);
+      expect(await lint(code, 'Form.module.less')).toEqual([]);
+    });
+  });
+});